@@ -0,0 +1,117 @@
+/** A complex number or a real number, which is treated as a complex number with an imaginary part of 0. */
+export type ComplexLike = Complex | number;
+
+/**
+ * An immutable complex number. All operations return a new instance.
+ * ### Example
+ * ```js
+ * const z = complex(1, 2);
+ * const w = z.mul(z).add(1).div(z.sub(complex(0, 1)));
+ * console.log(w.abs(), w.arg());
+ * ```
+ */
+export class Complex {
+	/** The real part. */
+	readonly re: number;
+
+	/** The imaginary part. */
+	readonly im: number;
+
+	constructor(re: number, im: number) {
+		this.re = re;
+		this.im = im;
+	}
+
+	/** Returns the sum of this number and another. */
+	add(other: ComplexLike) {
+		const o = toComplex(other);
+		return new Complex(this.re + o.re, this.im + o.im);
+	}
+
+	/** Returns the difference of this number and another. */
+	sub(other: ComplexLike) {
+		const o = toComplex(other);
+		return new Complex(this.re - o.re, this.im - o.im);
+	}
+
+	/** Returns the product of this number and another. */
+	mul(other: ComplexLike) {
+		const o = toComplex(other);
+		return new Complex(
+			this.re * o.re - this.im * o.im,
+			this.re * o.im + this.im * o.re,
+		);
+	}
+
+	/** Returns the quotient of this number and another. Division by zero results in NaN components. */
+	div(other: ComplexLike) {
+		const o = toComplex(other);
+		const denominator = o.re * o.re + o.im * o.im;
+		return new Complex(
+			(this.re * o.re + this.im * o.im) / denominator,
+			(this.im * o.re - this.re * o.im) / denominator,
+		);
+	}
+
+	/** Returns e raised to the power of this number. */
+	exp() {
+		const magnitude = Math.exp(this.re);
+		return new Complex(
+			magnitude * Math.cos(this.im),
+			magnitude * Math.sin(this.im),
+		);
+	}
+
+	/** Returns the principal value of the natural logarithm of this number. */
+	log() {
+		return new Complex(Math.log(this.abs()), this.arg());
+	}
+
+	/** Returns the principal value of this number raised to the given power. */
+	pow(exponent: ComplexLike) {
+		const e = toComplex(exponent);
+		if (this.re === 0 && this.im === 0) {
+			return e.re === 0 && e.im === 0 ? ONE : ZERO;
+		}
+		return this.log().mul(e).exp();
+	}
+
+	/** Returns the complex conjugate of this number. */
+	conj() {
+		return new Complex(this.re, -this.im);
+	}
+
+	/** Returns the negation of this number. */
+	neg() {
+		return new Complex(-this.re, -this.im);
+	}
+
+	/** Returns the modulus (absolute value) of this number. */
+	abs() {
+		return Math.hypot(this.re, this.im);
+	}
+
+	/** Returns the argument (angle) of this number in the range (-π, π]. */
+	arg() {
+		return Math.atan2(this.im, this.re);
+	}
+
+	toString() {
+		const sign = this.im < 0 ? "-" : "+";
+		return `${this.re} ${sign} ${Math.abs(this.im)}i`;
+	}
+}
+
+const ZERO = new Complex(0, 0);
+const ONE = new Complex(1, 0);
+
+/** Returns a new Complex instance. */
+export const complex = (re: number, im: number = 0) => {
+	return new Complex(re, im);
+};
+
+/** Converts a complex or real number to a Complex instance. */
+export const toComplex = (value: ComplexLike) => {
+	if (value instanceof Complex) return value;
+	return new Complex(value, 0);
+};
@@ -7,41 +7,95 @@ import {
 import { THREE } from "./index.ts";
 import { toVec3, vec2, vec3, type Vec2, type Vec3 } from "./vecUtils.ts";
 import { Font } from "three/addons/loaders/FontLoader.js";
-import { Checkbox, Slider } from "./domElements.ts";
+import {
+	Checkbox,
+	ColorPicker,
+	NumberInput,
+	Pad,
+	Select,
+	Slider,
+	TextInput,
+} from "./domElements.ts";
 import { OrbitControls } from "three/addons/controls/OrbitControls.js";
+import { Picker } from "./picking.ts";
+import {
+	ParallelAnimation,
+	SequenceAnimation,
+	Tween,
+	type Animation,
+} from "./tween.ts";
+import type { EasingFn, EasingName } from "./easing.ts";
+import { Timeline } from "./timeline.ts";
+import { type Folder, Panel, type PanelPosition } from "./panel.ts";
+import { Computed } from "./reactive.ts";
+import { toControlKey, type PersistentControl } from "./persistence.ts";
+import {
+	loadObject,
+	SCENE_VERSION,
+	toHex,
+	type SerializedScene,
+	validateScene,
+} from "./serialization.ts";
 import {
 	Arrow,
+	Axes,
 	Circle,
+	ComplexGraph3d,
 	Cone,
 	Cuboid,
 	Cylinder,
+	DomainColoring,
+	FlowParticles,
 	Graph,
 	Graph3d,
+	Handle,
 	HeightField,
+	ImplicitCurve,
+	ImplicitSurface,
 	LineStrip,
+	Parametric,
+	ParametricSurface,
 	Plane,
 	Points,
+	PolarGraph,
+	type SceneObject,
 	Sphere,
+	Streamlines,
 	Torus,
+	VectorField,
 } from "./objects/index.ts";
 import { Text } from "./objects/text.ts";
+import type { ComplexFn } from "./objects/complex.ts";
+import type { VectorFieldFn } from "./objects/vectorfield.ts";
 
 export type UpdateFn = (dt: number, elapsed: number) => void;
 
+/** The cameras a context can render with. See {@link Ctx.perspective} and {@link Ctx.orthographic}. */
+export type SceneCamera = THREE.OrthographicCamera | THREE.PerspectiveCamera;
+
+/** The near and far planes of the cameras created by the context. */
+const ORTHOGRAPHIC_NEAR = -1000000;
+const PERSPECTIVE_NEAR = 1;
+const CAMERA_FAR = 1000000;
+
+/** Significant digits of the zoom level of perspective cameras. */
+const ZOOM_PRECISION = 9;
+
 export class Ctx {
 	/**
 	 * The active camera used for rendering the scene. Modify or override it to change the view.
 	 *
-	 * Defaults to an orthographic camera positioned at (-1, 1, 1) looking at the origin.
+	 * Defaults to an orthographic camera positioned at (-1, 1, 1) looking at the origin. Use {@link perspective} and
+	 * {@link orthographic} to switch between camera types while keeping the view.
 	 * ### Example
 	 * ```js
 	 * ctx.camera.position.set(10, 10, 10);
 	 * ctx.camera.lookAt(0, 0, 0);
 	 *
-	 * ctx.camera = new THREE.PerspectiveCamera(75, 16 / 9, 0.1, 1000);
+	 * ctx.perspective(75);
 	 * ```
 	 */
-	camera: THREE.OrthographicCamera;
+	camera: SceneCamera;
 
 	/**
 	 * A reference to the THREE.js Scene instance.
@@ -73,6 +127,26 @@ export class Ctx {
 	 */
 	private readonly updateFns: UpdateFn[];
 
+	/**
+	 * The running tweens, advanced on each animation frame before the update functions are called.
+	 */
+	private tweens: Tween[];
+
+	/**
+	 * The timelines, advanced on each animation frame after the tweens.
+	 */
+	private readonly timelines: Timeline[];
+
+	/**
+	 * The objects created with this context, in the order they were created. Used to serialize the scene.
+	 */
+	private objects: SceneObject<unknown>[];
+
+	/**
+	 * The controls created with this context by their key. Used to save and restore their values.
+	 */
+	private readonly controls: Map<string, PersistentControl>;
+
 	/**
 	 * The current theme of the context. This can be used to adjust colors and styles based on light or dark mode.
 	 */
@@ -99,14 +173,33 @@ export class Ctx {
 	 */
 	private mousePosition: THREE.Vector2;
 
+	/**
+	 * The size of the renderer in pixels, as last passed to {@link __setCameraBounds}. Needed to set up perspective
+	 * cameras, whose bounds aren't in pixels.
+	 */
+	private readonly viewSize: THREE.Vector2;
+
+	/**
+	 * Handles pointer events for objects with onClick, onHover or onLeave handlers.
+	 */
+	private readonly picker: Picker;
+
 	constructor(scene: THREE.Scene, wrapper: HTMLDivElement) {
 		this.sceneRef = scene;
 		this.wrapperRef = wrapper;
 		this.updateFns = [];
+		this.tweens = [];
+		this.timelines = [];
+		this.objects = [];
+		this.controls = new Map();
 		this.garbage = [];
 		this.mousePosition = vec2(0, 0);
+		this.viewSize = vec2(2, 2);
 
-		document.body.addEventListener("mousemove", this.onMouseMove);
+		wrapper.ownerDocument.body.addEventListener(
+			"mousemove",
+			this.onMouseMove,
+		);
 
 		this.globalLight = new THREE.HemisphereLight(0xffffff, 0x000000, 3);
 		this.spawn(this.globalLight);
@@ -114,12 +207,14 @@ export class Ctx {
 		this.background(this.COLOR.BACKGROUND);
 
 		this.camera = new THREE.OrthographicCamera();
-		this.camera.near = -1000000;
-		this.camera.far = 1000000;
+		this.camera.near = ORTHOGRAPHIC_NEAR;
+		this.camera.far = CAMERA_FAR;
 		this.camera.position.set(-1, 1, 1);
 		this.camera.lookAt(0, 0, 0);
 
 		this.orbitControls = null;
+
+		this.picker = new Picker(this, scene, wrapper);
 	}
 
 	/**
@@ -157,11 +252,36 @@ export class Ctx {
 	};
 
 	/**
-	 * Gets or sets the zoom level of the camera. The zoom level is the inverse of the camera's scale.
+	 * Gets or sets the zoom level of the camera. For an orthographic camera, the zoom level is the inverse of the
+	 * camera's scale. For a perspective camera, it is the number of pixels a world unit covers at the orbit target, or
+	 * at the origin without orbit controls, and setting it moves the camera towards or away from that point.
 	 * @param value (Optional) If provided, sets the zoom level to this factor.
 	 * @returns The current zoom level of the camera.
 	 */
 	zoom = (value?: number) => {
+		if (this.camera instanceof THREE.PerspectiveCamera) {
+			const target = this.getCameraTarget();
+			const direction = this.camera.getWorldDirection(vec3(0, 0, 0));
+			if (value !== undefined) {
+				this.camera.position
+					.copy(target)
+					.addScaledVector(
+						direction,
+						-this.getViewDistance(this.camera, value),
+					);
+			}
+			const distance = Math.max(
+				target.sub(this.camera.position).dot(direction),
+				this.camera.near,
+			);
+			// Rounded, so that rounding errors while orbiting at a fixed distance don't change the zoom level.
+			return Number(
+				(this.getViewDistance(this.camera, 1) / distance).toPrecision(
+					ZOOM_PRECISION,
+				),
+			);
+		}
+
 		if (value !== undefined) {
 			this.camera.scale.setScalar(1 / value);
 		}
@@ -169,6 +289,79 @@ export class Ctx {
 		return 1 / Math.min(scaleX, scaleY, scaleZ);
 	};
 
+	/**
+	 * Returns how many pixels one world unit covers on screen, taking into account {@link zoom}, the zoom of the
+	 * orbit controls and, for a perspective camera, the distance to the orbit target. Used to choose default sizes and
+	 * resolutions of objects, like the head size of arrows or the number of points of graphs.
+	 * ### Example
+	 * ```js
+	 * // A sphere that is 10 pixels wide when created.
+	 * ctx.sphere(5 / ctx.pixelsPerUnit());
+	 * ```
+	 * @returns The number of pixels per world unit.
+	 */
+	pixelsPerUnit = () => this.zoom() * this.camera.zoom;
+
+	/**
+	 * Switches to a perspective camera, keeping the position of the orbit target on screen, the orientation of the
+	 * camera and the size of objects at the target.
+	 * ### Example
+	 * ```js
+	 * ctx.perspective(60);
+	 * ctx.orbit();
+	 *
+	 * // Switches between camera types.
+	 * ctx.checkbox("Perspective", true, (on) => (on ? ctx.perspective(60) : ctx.orthographic()));
+	 * ```
+	 * @param fov (Optional) The vertical field of view in degrees. Default is 50.
+	 * @returns The new camera, which is also available as {@link camera}.
+	 */
+	perspective = (fov = 50) => {
+		const pixelsPerUnit = this.pixelsPerUnit();
+		const camera = new THREE.PerspectiveCamera(
+			fov,
+			1,
+			PERSPECTIVE_NEAR,
+			CAMERA_FAR,
+		);
+		camera.quaternion.copy(this.camera.quaternion);
+
+		// Backs away from the target along the viewing direction, until objects there have the same size as before.
+		const direction = this.camera.getWorldDirection(vec3(0, 0, 0));
+		camera.position
+			.copy(this.getCameraTarget())
+			.addScaledVector(
+				direction,
+				-this.getViewDistance(camera, pixelsPerUnit),
+			);
+
+		this.setCamera(camera);
+		return camera;
+	};
+
+	/**
+	 * Switches to an orthographic camera, which is the default. The camera keeps its position and orientation, and
+	 * objects at the orbit target keep their size.
+	 * ### Example
+	 * ```js
+	 * ctx.perspective(60);
+	 * ctx.button("Flat view", () => ctx.orthographic());
+	 * ```
+	 * @returns The new camera, which is also available as {@link camera}.
+	 */
+	orthographic = () => {
+		const pixelsPerUnit = this.pixelsPerUnit();
+		const camera = new THREE.OrthographicCamera();
+		camera.near = ORTHOGRAPHIC_NEAR;
+		camera.far = CAMERA_FAR;
+		camera.position.copy(this.camera.position);
+		camera.quaternion.copy(this.camera.quaternion);
+		camera.scale.setScalar(1 / pixelsPerUnit);
+
+		this.setCamera(camera);
+		return camera;
+	};
+
 	/**
 	 * Configures orbit controls for the camera.
 	 * ### Example
@@ -250,6 +443,127 @@ export class Ctx {
 	 */
 	update = (fn: UpdateFn) => this.updateFns.push(fn);
 
+	/**
+	 * Creates a value derived from controls or other computed values. The function is called right away, and again
+	 * only when one of the values it read with `value()` changes, so expensive results can be read on every frame.
+	 * Like controls, the computed value can be bound to retained objects.
+	 * ### Example
+	 * ```js
+	 * const volume = ctx.slider("Volume", 1, 1000000);
+	 * const radius = ctx.computed(() => Math.cbrt((3 * volume.value()) / (4 * Math.PI)));
+	 *
+	 * radius.bind(ctx.sphere(1), (sphere, radius) => sphere.radius(radius));
+	 * ctx.update(() => {
+	 *     ctx.text(`Radius: ${radius.value().toFixed(1)}`);
+	 * });
+	 * ```
+	 * @param fn The function computing the value.
+	 * @returns The created {@link Computed} value.
+	 */
+	computed = <T>(fn: () => T) => new Computed(fn);
+
+	/**
+	 * Creates a tween that calls the given function on each animation frame with the eased progress, going from 0 to 1
+	 * over the given duration. Objects can be animated directly with their `animate` method, which uses this.
+	 * ### Example
+	 * ```js
+	 * // Zooms in over two seconds.
+	 * await ctx.tween(2, (t) => {
+	 *     ctx.camera.zoom = 1 + t;
+	 *     ctx.camera.updateProjectionMatrix();
+	 * });
+	 * ```
+	 * @param duration The duration in seconds.
+	 * @param update Function receiving the eased progress.
+	 * @param easing (Optional) An easing function or the name of one in {@link easing}. Default is "cubicInOut".
+	 * @returns The created {@link Tween} instance, which can be awaited and cancelled.
+	 */
+	tween = (
+		duration: number,
+		update: (t: number) => void,
+		easing?: EasingFn | EasingName,
+	) => {
+		const tween = new Tween(duration, update, easing);
+		this.tweens.push(tween);
+		return tween;
+	};
+
+	/**
+	 * Creates an animation that does nothing for the given time. Useful for pauses in sequences.
+	 * ### Example
+	 * ```js
+	 * await ctx.delay(1);
+	 * sphere.animate({ pos: [0, 100, 0] }, 1);
+	 * ```
+	 * @param seconds The number of seconds to wait.
+	 * @returns The created {@link Tween} instance.
+	 */
+	delay = (seconds: number) => this.tween(seconds, () => {}, "linear");
+
+	/**
+	 * Groups animations that run at the same time. Cancelling the group cancels all of its animations.
+	 * ### Example
+	 * ```js
+	 * await ctx.parallel(
+	 *     a.animate({ pos: [100, 0, 0] }, 1),
+	 *     b.animate({ opacity: 0 }, 0.5),
+	 * );
+	 * ```
+	 * @param animations The animations to group.
+	 * @returns The created {@link ParallelAnimation} instance, which finishes when all animations have finished.
+	 */
+	parallel = (...animations: Animation[]) =>
+		new ParallelAnimation(animations);
+
+	/**
+	 * Runs animations one after another. Each step is a function starting an animation, which is called when the
+	 * previous step has finished. Cancelling the sequence cancels the current step and skips the remaining ones.
+	 * ### Example
+	 * ```js
+	 * const sequence = ctx.sequence(
+	 *     () => sphere.animate({ pos: [100, 0, 0] }, 1),
+	 *     () => ctx.delay(0.5),
+	 *     () => sphere.animate({ color: "red" }, 1),
+	 * );
+	 * ctx.button("Stop", () => sequence.cancel());
+	 * ```
+	 * @param steps Functions that each start an animation.
+	 * @returns The created {@link SequenceAnimation} instance.
+	 */
+	sequence = (...steps: (() => Animation)[]) => new SequenceAnimation(steps);
+
+	/**
+	 * Creates a timeline of keyframed tracks, with a scrubber and play/pause and loop buttons added to the renderer's
+	 * DOM wrapper. Tracks are evaluated from absolute time, so scrubbing always shows the same state for the same time.
+	 * ### Example
+	 * ```js
+	 * const sphere = ctx.sphere(10);
+	 *
+	 * ctx.timeline({ loop: true })
+	 *     .track(sphere, [
+	 *         { time: 0, pos: [0, 0, 0], color: "red" },
+	 *         { time: 2, pos: [100, 0, 0], easing: "backOut" },
+	 *         { time: 3, color: "blue" },
+	 *     ])
+	 *     .trackValue((angle) => (sphere.mesh.rotation.y = angle), [
+	 *         { time: 0, value: 0 },
+	 *         { time: 3, value: Math.PI, easing: "linear" },
+	 *     ]);
+	 * ```
+	 * @param config (Optional) Configuration options, such as the duration and whether to loop.
+	 * @returns The created {@link Timeline} instance.
+	 */
+	timeline = (config?: {
+		duration?: number;
+		loop?: boolean;
+		autoplay?: boolean;
+		controls?: boolean;
+	}) => {
+		const timeline = new Timeline(this.wrapperRef, this.theme, config);
+		this.timelines.push(timeline);
+		return timeline;
+	};
+
 	/**
 	 * A collection of commonly used colors based on the current theme.
 	 */
@@ -285,10 +599,15 @@ export class Ctx {
 	 * ```
 	 * @param label The text label of the button.
 	 * @param onClick The callback function to be executed when the button is clicked.
+	 * @param config (Optional) The panel or folder to add the button to, instead of the renderer's DOM wrapper.
 	 * @returns The created HTMLButtonElement.
 	 */
-	button = (label: string, onClick: () => void) => {
-		const button = document.createElement("button");
+	button = (
+		label: string,
+		onClick: () => void,
+		config?: { panel?: Panel | Folder },
+	) => {
+		const button = this.createElement("button");
 		button.textContent = label;
 		button.onclick = onClick;
 
@@ -297,7 +616,7 @@ export class Ctx {
 			button.classList.add("dark");
 		}
 
-		this.wrapperRef.appendChild(button);
+		this.appendControl(button, config?.panel);
 		return button;
 	};
 
@@ -314,12 +633,21 @@ export class Ctx {
 	 *
 	 * // Slider with custom step size and initial value
 	 * ctx.slider("Opacity", 0, 1, 0.25, { step: 0.01 });
+	 *
+	 * // Slider with a key that stays the same when the label is renamed
+	 * ctx.slider("Line width", 1, 10, 2, { key: "width" });
+	 *
+	 * // Updates a retained object only when the slider changes
+	 * const sphere = ctx.sphere(10);
+	 * ctx.slider("Size", 1, 100).bind(sphere, (sphere, size) => sphere.radius(size));
 	 * ```
 	 * @param label The text label of the slider. If null or empty, no label is created.
 	 * @param min The minimum value of the slider.
 	 * @param max The maximum value of the slider.
 	 * @param initial The initial value of the slider. If null, defaults to the midpoint between min and max.
-	 * @param config Configuration options for the slider, such as step size and whether to show the current value.
+	 * @param config Configuration options for the slider, such as step size, whether to show the current value, the
+	 * panel or folder to add it to and the key its value is saved under when the renderer persists its state. The key
+	 * defaults to one derived from the label.
 	 * @returns A Slider object containing references to the created DOM elements and methods to get/set the slider value.
 	 */
 	slider = (
@@ -327,25 +655,30 @@ export class Ctx {
 		min: number,
 		max: number,
 		initial?: number | null,
-		config?: { step?: number; showValue?: boolean },
+		config?: {
+			step?: number;
+			showValue?: boolean;
+			panel?: Panel | Folder;
+			key?: string;
+		},
 	) => {
-		const container = document.createElement("div");
+		const container = this.createElement("div");
 		container.classList.add("renderer-slider-container");
 
 		if (this.theme === "dark") {
 			container.classList.add("dark");
 		}
 
-		const input = document.createElement("input");
+		const input = this.createElement("input");
 		input.type = "range";
 		input.min = min.toString();
 		input.max = max.toString();
 
-		const labelContainer = document.createElement("div");
+		const labelContainer = this.createElement("div");
 
 		let labelElement: HTMLLabelElement | null = null;
 		if (label !== null && label !== "") {
-			labelElement = document.createElement("label");
+			labelElement = this.createElement("label");
 			labelElement.textContent = label;
 
 			const inputId = `slider-${Math.random().toString(36).substring(2)}`;
@@ -357,14 +690,10 @@ export class Ctx {
 
 		let valueLabel = null;
 		if (config?.showValue ?? false == false) {
-			valueLabel = document.createElement("span");
+			valueLabel = this.createElement("span");
 			valueLabel.textContent =
 				initial?.toString() ?? ((min + max) / 2).toString();
 			labelContainer.appendChild(valueLabel);
-
-			input.addEventListener("input", () => {
-				valueLabel!.textContent = input.value;
-			});
 		}
 
 		const range = max - min;
@@ -376,15 +705,31 @@ export class Ctx {
 
 		container.appendChild(labelContainer);
 		container.appendChild(input);
-		this.wrapperRef.appendChild(container);
+		this.appendControl(container, config?.panel);
+
+		const key = this.addControl(
+			toControlKey(label, "slider"),
+			config?.key,
+			{
+				value: () => slider.value(),
+				restore: (value) => slider.setValue(Number(value)),
+			},
+		);
 
-		return new Slider(
+		const slider = new Slider(
 			container,
 			input,
 			labelContainer,
 			labelElement,
 			valueLabel,
+			key,
 		);
+		if (valueLabel !== null) {
+			slider.onChange(() => {
+				valueLabel.textContent = input.value;
+			});
+		}
+		return slider;
 	};
 
 	/**
@@ -396,19 +741,21 @@ export class Ctx {
 	 * @param value The text content of the element.
 	 * @param size The font size of the text element in pixels. Defaults to 16 if not provided.
 	 * @param color The color of the text. Defaults to the context's foreground color if not provided.
+	 * @param config (Optional) The panel or folder to add the text to, instead of the renderer's DOM wrapper.
 	 * @returns The created HTMLSpanElement.
 	 */
 	textElement = (
 		value: string,
 		size?: number | null,
 		color?: THREE.ColorRepresentation,
+		config?: { panel?: Panel | Folder },
 	) => {
-		const span = document.createElement("span");
+		const span = this.createElement("span");
 		span.classList.add("renderer-text-element");
 		span.style.fontSize = `${size ?? 16}px`;
 		span.style.color = toColor(color ?? this.COLOR.FOREGROUND).getStyle();
 		span.textContent = value;
-		this.wrapperRef.appendChild(span);
+		this.appendControl(span, config?.panel);
 
 		return span;
 	};
@@ -433,32 +780,31 @@ export class Ctx {
 	 * @param label The text label of the checkbox.
 	 * @param initial The initial checked state of the checkbox. Defaults to false.
 	 * @param onToggle The callback function to be executed when the checkbox state changes.
+	 * @param config (Optional) The panel or folder to add the checkbox to, and the key the state is saved under when
+	 * the renderer persists its state. The key defaults to one derived from the label.
 	 * @returns A Checkbox object containing references to the created DOM elements and methods to get/set the checkbox state.
 	 */
 	checkbox = (
 		label: string | null,
 		initial?: boolean | null,
 		onToggle?: (isChecked: boolean) => void,
+		config?: { panel?: Panel | Folder; key?: string },
 	) => {
-		const container = document.createElement("div");
+		const container = this.createElement("div");
 		container.classList.add("renderer-checkbox-container");
 		if (this.theme === "dark") {
 			container.classList.add("dark");
 		}
 
-		const input = document.createElement("input");
+		const input = this.createElement("input");
 		input.type = "checkbox";
 		input.checked = initial ?? false;
 
-		if (onToggle !== undefined) {
-			input.addEventListener("change", () => onToggle(input.checked));
-		}
-
 		container.appendChild(input);
 
 		let labelElement: HTMLLabelElement | null = null;
 		if (label !== null && label !== "") {
-			labelElement = document.createElement("label");
+			labelElement = this.createElement("label");
 			labelElement.textContent = label;
 			const inputId = `checkbox-${Math.random()
 				.toString(36)
@@ -468,9 +814,390 @@ export class Ctx {
 			container.appendChild(labelElement);
 		}
 
-		this.wrapperRef.appendChild(container);
+		this.appendControl(container, config?.panel);
 
-		return new Checkbox(container, input, labelElement);
+		const key = this.addControl(
+			toControlKey(label, "checkbox"),
+			config?.key,
+			{
+				value: () => checkbox.value(),
+				restore: (value) => checkbox.setValue(value === true),
+			},
+		);
+
+		const checkbox = new Checkbox(container, input, labelElement, key);
+		if (onToggle !== undefined) {
+			checkbox.onChange(onToggle);
+		}
+		return checkbox;
+	};
+
+	/**
+	 * Creates a panel in a corner of the renderer's DOM wrapper. Controls are placed in the panel or one of its
+	 * folders by passing it as the `panel` option when creating them. Other elements, or controls created before, can
+	 * be moved into it with {@link Panel.add}.
+	 * ### Example
+	 * ```js
+	 * const panel = ctx.panel({ position: "top-right", collapsible: true });
+	 * const radius = ctx.slider("Radius", 1, 100, null, { panel });
+	 * const color = ctx.colorPicker("Color", "tomato", undefined, { panel });
+	 *
+	 * const camera = panel.folder("Camera", { open: false });
+	 * const orbit = ctx.checkbox("Orbit", true, undefined, { panel: camera });
+	 * ```
+	 * @param config (Optional) Configuration options, such as the corner to place the panel in, its title and whether
+	 * it can be collapsed.
+	 * @returns The created {@link Panel} instance.
+	 */
+	panel = (config?: {
+		position?: PanelPosition;
+		title?: string;
+		collapsible?: boolean;
+		collapsed?: boolean;
+	}) => new Panel(this.wrapperRef, this.theme, config);
+
+	/**
+	 * Creates a dropdown element and adds it to the renderer's DOM wrapper.
+	 * ### Example
+	 * ```js
+	 * const functions = { sin: Math.sin, cos: Math.cos, tan: Math.tan };
+	 * const choice = ctx.select("Function", Object.keys(functions), "cos");
+	 *
+	 * ctx.update(() => {
+	 *     ctx.graph(functions[choice.value()]);
+	 * });
+	 * ```
+	 * @param label The text label of the dropdown. If null or empty, no label is created.
+	 * @param options The options to choose from.
+	 * @param initial The initially selected option. Defaults to the first option.
+	 * @param onChange The callback function to be executed when another option is selected.
+	 * @param config (Optional) The panel or folder to add the dropdown to, and the key the selected option is saved
+	 * under when the renderer persists its state. The key defaults to one derived from the label.
+	 * @returns A {@link Select} object containing references to the created DOM elements and methods to get/set the
+	 * selected option.
+	 */
+	select = (
+		label: string | null,
+		options: string[],
+		initial?: string | null,
+		onChange?: (value: string) => void,
+		config?: { panel?: Panel | Folder; key?: string },
+	) => {
+		if (initial != null && !options.includes(initial)) {
+			throw new Error(
+				`Initial value must be one of the options. Got "${initial}".`,
+			);
+		}
+
+		const select = this.createElement("select");
+		for (const option of options) {
+			const optionElement = this.createElement("option");
+			optionElement.value = option;
+			optionElement.textContent = option;
+			select.appendChild(optionElement);
+		}
+		select.value = initial ?? options[0] ?? "";
+
+		const [container, labelElement] = this.createControlContainer(
+			label,
+			select,
+			"select",
+			config?.panel,
+		);
+		const key = this.addControl(
+			toControlKey(label, "select"),
+			config?.key,
+			{
+				value: () => dropdown.value(),
+				restore: (value) => {
+					if (typeof value === "string" && options.includes(value)) {
+						dropdown.setValue(value);
+					}
+				},
+			},
+		);
+
+		const dropdown = new Select(container, select, labelElement, key);
+		if (onChange !== undefined) {
+			dropdown.onChange(onChange);
+		}
+		return dropdown;
+	};
+
+	/**
+	 * Creates a color picker element and adds it to the renderer's DOM wrapper.
+	 * ### Example
+	 * ```js
+	 * const sphere = ctx.sphere(50);
+	 * ctx.colorPicker("Color", "tomato", (color) => sphere.color(color));
+	 * ```
+	 * @param label The text label of the color picker. If null or empty, no label is created.
+	 * @param initial The initial color. Defaults to the context's foreground color.
+	 * @param onChange The callback function to be executed when another color is picked.
+	 * @param config (Optional) The panel or folder to add the color picker to, and the key the color is saved under
+	 * when the renderer persists its state. The key defaults to one derived from the label.
+	 * @returns A {@link ColorPicker} object containing references to the created DOM elements and methods to get/set
+	 * the color.
+	 */
+	colorPicker = (
+		label: string | null,
+		initial?: THREE.ColorRepresentation | null,
+		onChange?: (color: THREE.Color) => void,
+		config?: { panel?: Panel | Folder; key?: string },
+	) => {
+		const input = this.createElement("input");
+		input.type = "color";
+		input.value = `#${toColor(initial ?? this.COLOR.FOREGROUND).getHexString()}`;
+
+		const [container, labelElement] = this.createControlContainer(
+			label,
+			input,
+			"color",
+			config?.panel,
+		);
+		container.classList.add("inline");
+		const key = this.addControl(toControlKey(label, "color"), config?.key, {
+			value: () => input.value,
+			restore: (value) => picker.setValue(value.toString()),
+		});
+
+		const picker = new ColorPicker(container, input, labelElement, key);
+		if (onChange !== undefined) {
+			picker.onChange(onChange);
+		}
+		return picker;
+	};
+
+	/**
+	 * Creates a number input element and adds it to the renderer's DOM wrapper. Unlike a {@link slider}, it allows
+	 * entering exact values.
+	 * ### Example
+	 * ```js
+	 * const count = ctx.numberInput("Count", 12, null, { min: 1, step: 1 });
+	 *
+	 * ctx.update(() => {
+	 *     ctx.points(Array.from({ length: count.value() }, (_, i) => [i * 10, 0]));
+	 * });
+	 * ```
+	 * @param label The text label of the number input. If null or empty, no label is created.
+	 * @param initial The initial number. Defaults to 0.
+	 * @param onChange The callback function to be executed when the number changes.
+	 * @param config (Optional) Configuration options, such as the allowed range, step size, the panel or folder to add
+	 * the input to and the key the number is saved under when the renderer persists its state. The key defaults to one
+	 * derived from the label.
+	 * @returns A {@link NumberInput} object containing references to the created DOM elements and methods to get/set
+	 * the number.
+	 */
+	numberInput = (
+		label: string | null,
+		initial?: number | null,
+		onChange?: ((value: number) => void) | null,
+		config?: {
+			min?: number;
+			max?: number;
+			step?: number;
+			panel?: Panel | Folder;
+			key?: string;
+		},
+	) => {
+		const input = this.createElement("input");
+		input.type = "number";
+		if (config?.min !== undefined) input.min = config.min.toString();
+		if (config?.max !== undefined) input.max = config.max.toString();
+		input.step = config?.step?.toString() ?? "any";
+		input.value = (initial ?? 0).toString();
+
+		const [container, labelElement] = this.createControlContainer(
+			label,
+			input,
+			"number",
+			config?.panel,
+		);
+		const key = this.addControl(
+			toControlKey(label, "number"),
+			config?.key,
+			{
+				value: () => numberInput.value(),
+				restore: (value) => numberInput.setValue(Number(value)),
+			},
+		);
+
+		const numberInput = new NumberInput(
+			container,
+			input,
+			labelElement,
+			key,
+		);
+		if (onChange != null) {
+			numberInput.onChange(onChange);
+		}
+		return numberInput;
+	};
+
+	/**
+	 * Creates a text input element and adds it to the renderer's DOM wrapper.
+	 * ### Example
+	 * ```js
+	 * const title = ctx.textInput("Title", "Hello");
+	 *
+	 * ctx.update(() => {
+	 *     ctx.text(title.value());
+	 * });
+	 * ```
+	 * @param label The text label of the text input. If null or empty, no label is created.
+	 * @param initial The initial text. Defaults to an empty string.
+	 * @param onChange The callback function to be executed when the text changes.
+	 * @param config (Optional) Configuration options, such as the placeholder, the panel or folder to add the input to
+	 * and the key the text is saved under when the renderer persists its state. The key defaults to one derived from
+	 * the label.
+	 * @returns A {@link TextInput} object containing references to the created DOM elements and methods to get/set
+	 * the text.
+	 */
+	textInput = (
+		label: string | null,
+		initial?: string | null,
+		onChange?: ((value: string) => void) | null,
+		config?: { placeholder?: string; panel?: Panel | Folder; key?: string },
+	) => {
+		const input = this.createElement("input");
+		input.type = "text";
+		input.value = initial ?? "";
+		if (config?.placeholder !== undefined) {
+			input.placeholder = config.placeholder;
+		}
+
+		const [container, labelElement] = this.createControlContainer(
+			label,
+			input,
+			"text",
+			config?.panel,
+		);
+		const key = this.addControl(toControlKey(label, "text"), config?.key, {
+			value: () => textInput.value(),
+			restore: (value) => textInput.setValue(value.toString()),
+		});
+
+		const textInput = new TextInput(container, input, labelElement, key);
+		if (onChange != null) {
+			textInput.onChange(onChange);
+		}
+		return textInput;
+	};
+
+	/**
+	 * Creates a 2D pad and adds it to the renderer's DOM wrapper. Dragging the handle inside the pad picks two values
+	 * at once, like a point in a plane. Dragging the pad doesn't move the camera.
+	 * ### Example
+	 * ```js
+	 * const offset = ctx.pad("Offset", [0, 0], null, { x: [-100, 100], y: [-100, 100] });
+	 *
+	 * ctx.update(() => {
+	 *     ctx.circle(20).pos(offset.value());
+	 * });
+	 * ```
+	 * @param label The text label of the pad. If null or empty, no label is created.
+	 * @param initial The initial value. Defaults to the center of the ranges.
+	 * @param onChange The callback function to be executed while the handle is dragged.
+	 * @param config (Optional) Configuration options, such as the ranges of both values, which default to -1 to 1,
+	 * the size of the pad in pixels, which defaults to 120, the panel or folder to add the pad to and the key the value
+	 * is saved under when the renderer persists its state. The key defaults to one derived from the label.
+	 * @returns A {@link Pad} object containing references to the created DOM elements and methods to get/set the
+	 * value.
+	 */
+	pad = (
+		label: string | null,
+		initial?: Vec2 | null,
+		onChange?: ((value: THREE.Vector2) => void) | null,
+		config?: {
+			x?: [number, number];
+			y?: [number, number];
+			size?: number;
+			panel?: Panel | Folder;
+			key?: string;
+		},
+	) => {
+		const xRange = config?.x ?? [-1, 1];
+		const yRange = config?.y ?? [-1, 1];
+		const size = config?.size ?? 120;
+
+		const area = this.createElement("div");
+		area.classList.add("renderer-pad");
+		area.style.width = `${size}px`;
+		area.style.height = `${size}px`;
+
+		const handle = this.createElement("div");
+		area.appendChild(handle);
+
+		const [container, labelElement] = this.createControlContainer(
+			label,
+			area,
+			"pad",
+			config?.panel,
+		);
+		const valueLabel = this.createElement("span");
+		container.firstElementChild!.appendChild(valueLabel);
+
+		const key = this.addControl(toControlKey(label, "pad"), config?.key, {
+			value: () => pad.value().toArray(),
+			restore: (value) => {
+				if (Array.isArray(value)) {
+					pad.setValue([value[0] ?? 0, value[1] ?? 0]);
+				}
+			},
+		});
+
+		const pad = new Pad(
+			container,
+			area,
+			handle,
+			labelElement,
+			valueLabel,
+			key,
+			xRange,
+			yRange,
+		);
+		pad.setValue(
+			initial ?? [
+				(xRange[0] + xRange[1]) / 2,
+				(yRange[0] + yRange[1]) / 2,
+			],
+		);
+
+		if (onChange != null) {
+			pad.onChange(onChange);
+		}
+
+		const moveTo = (event: PointerEvent) => {
+			const bounds = area.getBoundingClientRect();
+			const u = THREE.MathUtils.clamp(
+				(event.clientX - bounds.left) / bounds.width,
+				0,
+				1,
+			);
+			const v = THREE.MathUtils.clamp(
+				(event.clientY - bounds.top) / bounds.height,
+				0,
+				1,
+			);
+			pad.setValue([
+				THREE.MathUtils.lerp(xRange[0], xRange[1], u),
+				THREE.MathUtils.lerp(yRange[1], yRange[0], v),
+			]);
+			// Lets the renderer save its state, as the pad has no input events of its own.
+			area.dispatchEvent(new Event("input", { bubbles: true }));
+		};
+
+		area.addEventListener("pointerdown", (event) => {
+			// Keeps the orbit controls and the picker, which listen on the wrapper, from reacting to the drag.
+			event.stopPropagation();
+			area.setPointerCapture(event.pointerId);
+			moveTo(event);
+		});
+		area.addEventListener("pointermove", (event) => {
+			if (area.hasPointerCapture(event.pointerId)) moveTo(event);
+		});
+
+		return pad;
 	};
 
 	/**
@@ -674,6 +1401,9 @@ export class Ctx {
 	 *     .dashed()
 	 *     .linewidth(5)
 	 *     .color("blue");
+	 *
+	 * // Functions with undefined regions and discontinuities are split into separate segments
+	 * ctx.graph(x => Math.tan(x), [-5, 5]).asymptotes();
 	 * ```
 	 * @param func The mathematical function to graph. A function of x returning y.
 	 * @param range (Optional) The range [from, to] over which to graph the function.
@@ -682,6 +1412,114 @@ export class Ctx {
 	graph = (func: (x: number) => number, range?: [number, number]) =>
 		new Graph(this, func, range);
 
+	/**
+	 * Creates and adds a parametric curve to the scene. The curve is sampled adaptively, so sharp bends get more points
+	 * than straight sections.
+	 * ### Example
+	 * ```js
+	 * // A circle with radius 50
+	 * ctx.parametric(t => [Math.cos(t) * 50, Math.sin(t) * 50]);
+	 *
+	 * // A helix, colored along its length
+	 * ctx.parametric(t => [Math.cos(t) * 20, t * 2, Math.sin(t) * 20], [0, 10 * Math.PI])
+	 *     .linewidth(4)
+	 *     .color((t) => ctx.COLOR.heatmap(t / (10 * Math.PI)));
+	 * ```
+	 * @param func The parametric function. A function of t returning a point.
+	 * @param range (Optional) The range [from, to] of t. Defaults to [0, 2π].
+	 * @returns The created {@link Parametric} instance.
+	 */
+	parametric = (func: (t: number) => Vec3, range?: [number, number]) =>
+		new Parametric(this, func, range);
+
+	/**
+	 * Creates and adds a graph of a function in polar coordinates to the scene, i.e. a curve where the distance r from
+	 * the origin is a function of the angle theta. Negative radii are drawn on the opposite side of the origin, and
+	 * angles where the function is undefined split the curve into separate segments.
+	 * ### Example
+	 * ```js
+	 * // A cardioid
+	 * ctx.polar(theta => 50 * (1 + Math.cos(theta)));
+	 *
+	 * // A lemniscate, which is undefined where cos(2θ) is negative
+	 * ctx.polar(theta => 80 * Math.sqrt(Math.cos(2 * theta)))
+	 *     .linewidth(4)
+	 *     .color((theta, r) => ctx.COLOR.heatmap(r / 80));
+	 *
+	 * // An Archimedean spiral over several turns
+	 * ctx.polar(theta => theta * 5, [0, 8 * Math.PI]);
+	 * ```
+	 * @param func The function to graph. A function of theta returning r.
+	 * @param range (Optional) The range [from, to] of theta. Defaults to [0, 2π].
+	 * @returns The created {@link PolarGraph} instance.
+	 */
+	polar = (func: (theta: number) => number, range?: [number, number]) =>
+		new PolarGraph(this, func, range);
+
+	/**
+	 * Creates and adds an implicit curve to the scene, i.e. the set of points where f(x, y) = 0. This can be used for
+	 * curves that are not functions of x, like circles and ellipses.
+	 * ### Example
+	 * ```js
+	 * // A circle with radius 50
+	 * ctx.implicit((x, y) => x * x + y * y - 50 * 50);
+	 *
+	 * // Several level sets of a function over a custom region
+	 * ctx.implicit((x, y) => Math.sin(x / 20) * Math.cos(y / 20), [-200, 200], [-100, 100], {
+	 *     levels: [-0.5, 0, 0.5],
+	 * })
+	 *     .linewidth(3)
+	 *     .color((x, y, level) => ctx.COLOR.heatmap((level + 1) / 2));
+	 * ```
+	 * @param func The function whose zero contour (or other level sets) is drawn.
+	 * @param xRange (Optional) The range [from, to] of x to evaluate the function over.
+	 * @param yRange (Optional) The range [from, to] of y to evaluate the function over.
+	 * @param config (Optional) Configuration options, such as the iso-values to draw and the sampling resolution.
+	 * @returns The created {@link ImplicitCurve} instance.
+	 */
+	implicit = (
+		func: (x: number, y: number) => number,
+		xRange?: [number, number] | null,
+		yRange?: [number, number] | null,
+		config?: {
+			levels?: number[];
+			resolution?: number;
+			depth?: number;
+		},
+	) =>
+		new ImplicitCurve(
+			this,
+			func,
+			xRange ?? undefined,
+			yRange ?? undefined,
+			config,
+		);
+
+	/**
+	 * Creates and adds a domain coloring plot of a complex function to the scene. Each point z = x + iy of the region is
+	 * colored by the value w = f(z): the hue shows the argument of w, and the brightness steps at every power of two of
+	 * its modulus. Zeros appear black and poles white.
+	 * ### Example
+	 * ```js
+	 * // A rational function with two zeros and a pole, with contour lines of the modulus
+	 * ctx.complex(z => z.mul(z).sub(1).div(z.sub(complex(0, 1))), [[-2, -2], [2, 2]])
+	 *     .contours()
+	 *     .color("white");
+	 *
+	 * // The complex exponential, without modulus shading
+	 * ctx.complex(z => z.exp(), [[-3, -3], [3, 3]], { shading: false });
+	 * ```
+	 * @param func The complex function. A function of a {@link Complex} z returning a complex or real number.
+	 * @param region (Optional) The [min, max] corners of the region of the complex plane to plot.
+	 * @param config (Optional) Configuration options, such as the texture resolution.
+	 * @returns The created {@link DomainColoring} instance.
+	 */
+	complex = (
+		func: ComplexFn,
+		region?: [Vec2, Vec2] | null,
+		config?: { resolution?: Vec2; shading?: boolean },
+	) => new DomainColoring(this, func, region ?? undefined, config);
+
 	/**
 	 * Creates and adds a 3D graph of a mathematical function to the scene.
 	 * ### Example
@@ -701,6 +1539,256 @@ export class Ctx {
 	graph3d = (func: (x: number, z: number) => number, size?: Vec2) =>
 		new Graph3d(this, func, size);
 
+	/**
+	 * Creates and adds an implicit surface to the scene, i.e. the set of points where f(x, y, z) = 0. The scalar field
+	 * is sampled over a bounding box and the surface is extracted using marching cubes.
+	 * ### Example
+	 * ```js
+	 * // A sphere with radius 40
+	 * ctx.implicit3d((x, y, z) => x * x + y * y + z * z - 40 * 40).shaded();
+	 *
+	 * // Two metaballs, colored by height
+	 * const ball = (x, y, z, cx) => 400 / ((x - cx) ** 2 + y * y + z * z + 1);
+	 * ctx.implicit3d((x, y, z) => ball(x, y, z, -15) + ball(x, y, z, 15), [[-50, -30, -30], [50, 30, 30]], {
+	 *     level: 1,
+	 *     resolution: [64, 40, 40],
+	 * })
+	 *     .color((x, y, z) => ctx.COLOR.heatmap((y + 30) / 60))
+	 *     .shaded();
+	 * ```
+	 * @param func The scalar field whose level surface is drawn. A function of (x, y, z) returning a number.
+	 * @param bounds (Optional) The [min, max] corners of the bounding box to sample the field in.
+	 * @param config (Optional) Configuration options, such as the iso-value and the sampling resolution.
+	 * @returns The created {@link ImplicitSurface} instance.
+	 */
+	implicit3d = (
+		func: (x: number, y: number, z: number) => number,
+		bounds?: [Vec3, Vec3] | null,
+		config?: { level?: number; resolution?: Vec3 },
+	) => new ImplicitSurface(this, func, bounds ?? undefined, config);
+
+	/**
+	 * Creates and adds a parametric surface to the scene. Unlike {@link graph3d}, the surface can be any shape that is
+	 * described by a function of two parameters.
+	 * ### Example
+	 * ```js
+	 * // A sphere with radius 50
+	 * ctx.surface(
+	 *     (u, v) => [50 * Math.cos(u) * Math.sin(v), 50 * Math.cos(v), 50 * Math.sin(u) * Math.sin(v)],
+	 *     [0, 2 * Math.PI],
+	 *     [0, Math.PI],
+	 * ).shaded();
+	 *
+	 * // A Möbius strip with a grid overlay and variable color
+	 * ctx.surface(
+	 *     (u, v) => [
+	 *         (40 + v * Math.cos(u / 2)) * Math.cos(u),
+	 *         v * Math.sin(u / 2),
+	 *         (40 + v * Math.cos(u / 2)) * Math.sin(u),
+	 *     ],
+	 *     [0, 2 * Math.PI],
+	 *     [-10, 10],
+	 * )
+	 *     .segments([128, 8])
+	 *     .grid([32, 4])
+	 *     .color((x, y, z, u) => ctx.COLOR.heatmap(u / (2 * Math.PI)));
+	 * ```
+	 * @param func The parametric function. A function of (u, v) returning a point.
+	 * @param uRange (Optional) The range [from, to] of u. Defaults to [0, 2π].
+	 * @param vRange (Optional) The range [from, to] of v. Defaults to [0, 2π].
+	 * @returns The created {@link ParametricSurface} instance.
+	 */
+	surface = (
+		func: (u: number, v: number) => Vec3,
+		uRange?: [number, number],
+		vRange?: [number, number],
+	) => new ParametricSurface(this, func, uRange, vRange);
+
+	/**
+	 * Creates and adds a graph of a function in spherical coordinates to the scene, i.e. a surface where the distance r
+	 * from the origin is a function of the azimuthal angle theta around the y axis and the polar angle phi from the
+	 * positive y axis.
+	 * ### Example
+	 * ```js
+	 * // A sphere with radius 50
+	 * ctx.spherical(() => 50).shaded();
+	 *
+	 * // A bumpy sphere with a grid overlay, colored by radius
+	 * ctx.spherical((theta, phi) => 50 + 5 * Math.sin(6 * theta) * Math.sin(5 * phi))
+	 *     .segments([128, 64])
+	 *     .grid([24, 12])
+	 *     .color((x, y, z) => ctx.COLOR.heatmap((Math.hypot(x, y, z) - 45) / 10));
+	 * ```
+	 * @param func The function to graph. A function of (theta, phi) returning r.
+	 * @param thetaRange (Optional) The range [from, to] of theta. Defaults to [0, 2π].
+	 * @param phiRange (Optional) The range [from, to] of phi. Defaults to [0, π].
+	 * @returns The created {@link ParametricSurface} instance, with theta and phi as its u and v parameters.
+	 */
+	spherical = (
+		func: (theta: number, phi: number) => number,
+		thetaRange?: [number, number],
+		phiRange?: [number, number],
+	) =>
+		new ParametricSurface(
+			this,
+			(theta, phi) => {
+				const r = func(theta, phi);
+				return vec3(
+					r * Math.sin(phi) * Math.cos(theta),
+					r * Math.cos(phi),
+					r * Math.sin(phi) * Math.sin(theta),
+				);
+			},
+			thetaRange,
+			phiRange ?? [0, Math.PI],
+		);
+
+	/**
+	 * Creates and adds a graph of a function in cylindrical coordinates to the scene, i.e. a surface where the distance
+	 * r from the y axis is a function of the angle theta around it and the height h along it. As in {@link graph3d},
+	 * the y axis points up.
+	 * ### Example
+	 * ```js
+	 * // A cylinder with radius 30 and height 100
+	 * ctx.cylindrical(() => 30, [-50, 50]).shaded();
+	 *
+	 * // A vase shape with a grid overlay
+	 * ctx.cylindrical((theta, h) => 30 + 10 * Math.sin(h / 15), [-60, 60])
+	 *     .grid([24, 8])
+	 *     .color((x, y, z) => ctx.COLOR.heatmap((y + 60) / 120));
+	 * ```
+	 * @param func The function to graph. A function of (theta, h) returning r.
+	 * @param heightRange (Optional) The range [from, to] of h. Defaults to 200 screen pixels centered at the origin.
+	 * @param thetaRange (Optional) The range [from, to] of theta. Defaults to [0, 2π].
+	 * @returns The created {@link ParametricSurface} instance, with theta and h as its u and v parameters.
+	 */
+	cylindrical = (
+		func: (theta: number, h: number) => number,
+		heightRange?: [number, number] | null,
+		thetaRange?: [number, number],
+	) =>
+		new ParametricSurface(
+			this,
+			(theta, h) => {
+				const r = func(theta, h);
+				return vec3(r * Math.cos(theta), h, r * Math.sin(theta));
+			},
+			thetaRange,
+			heightRange ?? [
+				-100 / this.pixelsPerUnit(),
+				100 / this.pixelsPerUnit(),
+			],
+		);
+
+	/**
+	 * Creates and adds a 3D graph of a complex function to the scene, where the height is the modulus |f(z)| and the
+	 * surface is colored like {@link complex}. The real part of z runs along the x axis and the imaginary part along the
+	 * z axis.
+	 * ### Example
+	 * ```js
+	 * // The modulus surface of 1 / (z^2 + 1), with its poles clipped
+	 * ctx.complex3d(z => complex(1).div(z.mul(z).add(1)), [[-2, -2], [2, 2]], { scale: 10, maxHeight: 40 });
+	 *
+	 * // A custom coloring based on the input and value
+	 * ctx.complex3d(z => z.pow(3), [[-2, -2], [2, 2]], { scale: 5 })
+	 *     .color((z, w) => ctx.COLOR.heatmap(w.abs() / 8));
+	 * ```
+	 * @param func The complex function. A function of a {@link Complex} z returning a complex or real number.
+	 * @param region (Optional) The [min, max] corners of the region of the complex plane to plot.
+	 * @param config (Optional) Configuration options, such as the height scale and the number of segments.
+	 * @returns The created {@link ComplexGraph3d} instance.
+	 */
+	complex3d = (
+		func: ComplexFn,
+		region?: [Vec2, Vec2] | null,
+		config?: {
+			segments?: Vec2;
+			scale?: number;
+			maxHeight?: number;
+			shading?: boolean;
+		},
+	) => new ComplexGraph3d(this, func, region ?? undefined, config);
+
+	/**
+	 * Creates and adds a vector field to the scene. Arrows are drawn at regularly spaced sample points using instanced
+	 * geometry, so large fields remain fast to render and update.
+	 * ### Example
+	 * ```js
+	 * // A 2D rotational field, colored by magnitude
+	 * ctx.vectorField((p) => [-p.y, p.x]).colormap();
+	 *
+	 * // A 3D field with normalized arrow lengths
+	 * ctx.vectorField((p) => [p.y, p.z, p.x], [[-50, -50, -50], [50, 50, 50]], 10).normalize();
+	 *
+	 * // A time-dependent field, re-evaluated every frame
+	 * ctx.vectorField((p, t) => [Math.sin(p.y / 20 + t), Math.cos(p.x / 20 + t)]).animateField();
+	 * ```
+	 * @param func The field function. A function of a position and time returning a vector.
+	 * @param bounds (Optional) The [min, max] corners of the region to sample. 2D corners result in a 2D field.
+	 * @param spacing (Optional) The distance between sample points.
+	 * @returns The created {@link VectorField} instance.
+	 */
+	vectorField = (
+		func: VectorFieldFn,
+		bounds?: [Vec3, Vec3] | null,
+		spacing?: number,
+	) => new VectorField(this, func, bounds ?? undefined, spacing);
+
+	/**
+	 * Creates and adds streamlines of a vector field to the scene. Each streamline starts at a seed point and follows the
+	 * field, integrated with the fourth-order Runge-Kutta method.
+	 * ### Example
+	 * ```js
+	 * // Phase portrait of a damped pendulum
+	 * const pendulum = (p) => [p.y, -Math.sin(p.x / 20) * 20 - p.y * 0.2];
+	 * const seeds = [];
+	 * for (let x = -100; x <= 100; x += 25) {
+	 *     seeds.push([x, 50], [x, -50]);
+	 * }
+	 * ctx.streamlines(pendulum, seeds, { maxLength: 800 })
+	 *     .color((p, magnitude) => ctx.COLOR.heatmap(magnitude / 50));
+	 * ```
+	 * @param func The field function. A function of a position and time returning a vector.
+	 * @param seeds The starting points of the streamlines.
+	 * @param config (Optional) Configuration options, such as the step size and maximum length of each streamline.
+	 * @returns The created {@link Streamlines} instance.
+	 */
+	streamlines = (
+		func: VectorFieldFn,
+		seeds: Vec3[],
+		config?: {
+			step?: number;
+			maxLength?: number;
+			direction?: "forward" | "backward" | "both";
+			time?: number;
+		},
+	) => new Streamlines(this, func, seeds, config);
+
+	/**
+	 * Creates particles that flow through a vector field. The particles are advected through the field on every frame
+	 * and respawn at random positions when they leave the bounds or reach the end of their lifetime.
+	 * ### Example
+	 * ```js
+	 * // A vortex, with particles moving at twice the field velocity
+	 * ctx.flow((p) => [-p.y, p.x], { speed: 2, count: 1000 }).color("blue");
+	 *
+	 * // A time-dependent field in a custom region
+	 * ctx.flow((p, t) => [50, Math.sin(p.x / 20 + t) * 30], { bounds: [[-200, -50], [200, 50]] });
+	 * ```
+	 * @param func The field function. A function of a position and time returning a velocity.
+	 * @param config (Optional) Configuration options, such as the region, particle count and lifetime.
+	 * @returns The created {@link FlowParticles} instance.
+	 */
+	flow = (
+		func: VectorFieldFn,
+		config?: {
+			bounds?: [Vec3, Vec3];
+			count?: number;
+			lifetime?: number;
+			speed?: number;
+		},
+	) => new FlowParticles(this, func, config);
+
 	/**
 	 * Creates and adds a grid helper to the scene.
 	 * ### Example
@@ -739,6 +1827,77 @@ export class Ctx {
 		return gridHelper;
 	};
 
+	/**
+	 * Creates and adds a polar grid helper to the scene, made of concentric circles and radial lines through the
+	 * origin. This is an alternative to {@link grid} for polar graphs.
+	 * ### Example
+	 * ```js
+	 * ctx.polarGrid(); // Default polar grid
+	 * ctx.polarGrid(200, 25, 16); // Radius 200, circles every 25 units and 16 radial lines
+	 * ctx.polarGrid(200, 50, 12, "gray", [0, 0, 1]); // Polar grid with normal along Z axis
+	 * ```
+	 * @param radius The radius of the grid. Defaults to half the camera extent.
+	 * @param spacing The spacing between circles. Defaults to 50 units.
+	 * @param spokes The number of radial lines. Defaults to 12, i.e. one every 30°.
+	 * @param color The color of the grid lines. Defaults to the context's secondary color.
+	 * @param normal The normal vector defining the orientation of the grid. Defaults to (0, 1, 0).
+	 * @returns The created THREE.PolarGridHelper instance.
+	 */
+	polarGrid = (
+		radius?: number | null,
+		spacing?: number | null,
+		spokes?: number | null,
+		color?: THREE.ColorRepresentation | null,
+		normal?: Vec3,
+	) => {
+		const gridRadius = radius ?? this.getCameraExtent() / 2;
+		const rings = Math.max(1, Math.round(gridRadius / (spacing ?? 50)));
+
+		const gridHelper = new THREE.PolarGridHelper(
+			gridRadius,
+			spokes ?? 12,
+			rings,
+			64,
+			color ?? this.COLOR.SECONDARY,
+			color ?? this.COLOR.SECONDARY,
+		);
+
+		const rotation = new THREE.Quaternion();
+		rotation.setFromUnitVectors(vec3(0, 1, 0), toVec3(normal ?? [0, 1, 0]));
+		gridHelper.quaternion.copy(rotation);
+
+		this.spawn(gridHelper);
+		return gridHelper;
+	};
+
+	/**
+	 * Creates and adds coordinate axes with ticks and numeric labels to the scene. Unless a fixed step is given, the tick
+	 * spacing is chosen automatically and re-laid out when the zoom level changes.
+	 * ### Example
+	 * ```js
+	 * ctx.axes(); // 2D axes
+	 *
+	 * ctx.axes({ dimensions: 3, titles: ["a", "b", "c"] }); // 3D axes with custom titles
+	 *
+	 * // Custom ranges and tick spacing, without arrowheads
+	 * ctx.axes({ x: [0, 300], y: [-50, 150], step: 25, arrows: false })
+	 *     .color("gray")
+	 *     .linewidth(1);
+	 * ```
+	 * @param config (Optional) Configuration options, such as the axis ranges, tick step and titles.
+	 * @returns The created {@link Axes} instance.
+	 */
+	axes = (config?: {
+		dimensions?: 2 | 3;
+		x?: [number, number];
+		y?: [number, number];
+		z?: [number, number];
+		step?: number;
+		titles?: string[];
+		arrows?: boolean;
+		labels?: boolean;
+	}) => new Axes(this, config);
+
 	/**
 	 * Creates and adds a point cloud to the scene.
 	 * ### Example
@@ -781,6 +1940,96 @@ export class Ctx {
 		heights: Float64Array | number[],
 	) => new HeightField(this, size, segments, heights);
 
+	/**
+	 * Creates and adds a handle to the scene, a grab point that can be dragged with the mouse or touch. Like a
+	 * {@link slider}, its current position can be read in an update function. While a handle is dragged, orbit
+	 * controls are disabled.
+	 * ### Example
+	 * ```js
+	 * // A triangle with draggable corners
+	 * const a = ctx.handle([-50, 0]);
+	 * const b = ctx.handle([50, 0]);
+	 * const c = ctx.handle([0, 80], { snap: 10 });
+	 *
+	 * ctx.update(() => {
+	 *     ctx.lineStrip([a.value(), b.value(), c.value(), a.value()]);
+	 * });
+	 *
+	 * // A handle that slides along the x axis, and one that moves along a circle
+	 * ctx.handle([0, 0, 0], { line: [1, 0, 0] }).color("red");
+	 * const h = ctx.handle([50, 0], { curve: t => [Math.cos(t) * 50, Math.sin(t) * 50] });
+	 * ctx.update(() => console.log(h.param()));
+	 * ```
+	 * @param initial The initial position of the handle.
+	 * @param config (Optional) Configuration options, such as the constraint to move along and the snap spacing.
+	 * @returns The created {@link Handle} instance.
+	 */
+	handle = (
+		initial: Vec3,
+		config?: {
+			plane?: Vec3;
+			line?: Vec3;
+			curve?: (t: number) => Vec3;
+			curveRange?: [number, number];
+			snap?: number;
+			radius?: number;
+		},
+	) => new Handle(this, this.picker, initial, config);
+
+	/**
+	 * Describes the objects in the scene as a versioned JSON document, which {@link load} can rebuild them from. The
+	 * document follows the JSON Schema exported as `sceneSchema`. Objects defined by functions, like graphs, and plain
+	 * Three.js objects are left out.
+	 * ### Example
+	 * ```js
+	 * ctx.sphere(20).pos([50, 0, 0]).color("red");
+	 * ctx.lineStrip([[0, 0], [100, 50]]).linewidth(4);
+	 *
+	 * const json = JSON.stringify(ctx.serialize());
+	 * ```
+	 * @returns The {@link SerializedScene} document.
+	 */
+	serialize = (): SerializedScene => {
+		const objects = [];
+		for (const object of this.objects) {
+			// Parts of composite objects, like the line of an arrow, are described by their parent.
+			if (object.mesh.parent !== this.sceneRef) continue;
+			const serialized = object.serialize();
+			if (serialized !== null) objects.push(serialized);
+		}
+
+		const background = this.sceneRef.background;
+		return {
+			version: SCENE_VERSION,
+			...(background instanceof THREE.Color
+				? { background: toHex(background) }
+				: {}),
+			objects,
+		};
+	};
+
+	/**
+	 * Adds the objects of a document written by {@link serialize} to the scene and sets its background.
+	 * ### Example
+	 * ```js
+	 * const response = await fetch("/scenes/example.json");
+	 * const [sphere, line] = ctx.load(await response.json());
+	 * ```
+	 * @param scene The document, either parsed or as a JSON string. All objects are checked before any is created, so
+	 * an invalid document throws without changing the scene.
+	 * @returns The created objects, in the order of the document.
+	 */
+	load = (scene: SerializedScene | string) => {
+		const document: unknown =
+			typeof scene === "string" ? JSON.parse(scene) : scene;
+		validateScene(document);
+
+		if (document.background !== undefined) {
+			this.background(document.background);
+		}
+		return document.objects.map((object) => loadObject(this, object));
+	};
+
 	/**
 	 * Spawns a Three.js object into the scene. In IMMEDIATE mode, the object will be removed at the beginning of the
 	 * next frame unless re-added in the next update call. See {@link mode} for more details.
@@ -795,11 +2044,19 @@ export class Ctx {
 	};
 
 	/**
-	 * Removes a Three.js object from the scene.
+	 * Removes a Three.js object from the scene. Objects created by the context whose mesh is the object or one of its
+	 * descendants are forgotten, so they are no longer serialized.
 	 * @param object A Three.js object
 	 */
 	remove = (object: THREE.Object3D) => {
 		this.sceneRef.remove(object);
+
+		// Forgets the objects the removed one belongs to, including parts of composite objects like axes.
+		const removed = new Set<THREE.Object3D>();
+		object.traverse((child) => removed.add(child));
+		this.objects = this.objects.filter(
+			(sceneObject) => !removed.has(sceneObject.mesh),
+		);
 	};
 
 	/**
@@ -810,22 +2067,68 @@ export class Ctx {
 	__tick(dt: number, elapsed: number) {
 		this.clearGarbage();
 		this.mode = "IMMEDIATE";
+		// Tweens started while stepping, like from the update function of another tween, are kept for the next tick.
+		const running = this.tweens;
+		this.tweens = [];
+		const kept = running.filter((tween) => tween.__step(dt));
+		this.tweens = kept.concat(this.tweens);
+		for (const timeline of this.timelines) {
+			timeline.__step(dt);
+		}
 		for (const fn of this.updateFns) {
 			fn(dt, elapsed);
 		}
 	}
 
+	/**
+	 * @internal Enables or disables the orbit controls, if they exist. Used to keep the camera still while dragging.
+	 */
+	__setOrbitEnabled = (enabled: boolean) => {
+		if (this.orbitControls !== null) {
+			this.orbitControls.enabled = enabled;
+		}
+	};
+
 	/**
 	 * @internal Updates camera bounds given width and height of the renderer.
 	 */
 	__setCameraBounds = (width: number, height: number) => {
-		this.camera.left = -width * 0.5;
-		this.camera.right = width * 0.5;
-		this.camera.top = height * 0.5;
-		this.camera.bottom = -height * 0.5;
+		this.viewSize.set(width, height);
+		if (this.camera instanceof THREE.PerspectiveCamera) {
+			if (width > 0 && height > 0) {
+				this.camera.aspect = width / height;
+			}
+		} else {
+			this.camera.left = -width * 0.5;
+			this.camera.right = width * 0.5;
+			this.camera.top = height * 0.5;
+			this.camera.bottom = -height * 0.5;
+		}
 		this.camera.updateProjectionMatrix();
 	};
 
+	/**
+	 * @internal Registers an object created with this context. Called by the constructor of every object.
+	 */
+	__addObject = (object: SceneObject<unknown>) => {
+		this.objects.push(object);
+	};
+
+	/**
+	 * @internal Returns the objects created with this context that are still alive, in the order they were created.
+	 */
+	__getObjects = (): readonly SceneObject<unknown>[] => this.objects;
+
+	/**
+	 * @internal Returns the controls created with this context by their key.
+	 */
+	__getControls = (): ReadonlyMap<string, PersistentControl> => this.controls;
+
+	/**
+	 * @internal Returns the orbit controls, if {@link orbit} was called.
+	 */
+	__getOrbitControls = () => this.orbitControls;
+
 	/**
 	 * @internal Returns the current rendering mode.
 	 */
@@ -835,7 +2138,40 @@ export class Ctx {
 	 * @internal Cleans up event listeners and other resources when the context is disposed.
 	 */
 	__dispose() {
-		document.body.removeEventListener("mousemove", this.onMouseMove);
+		this.wrapperRef.ownerDocument.body.removeEventListener(
+			"mousemove",
+			this.onMouseMove,
+		);
+		this.picker.dispose();
+	}
+
+	/**
+	 * Replaces the camera, pointing the orbit controls to the new one and fitting it to the size of the renderer.
+	 */
+	private setCamera(camera: SceneCamera) {
+		this.camera = camera;
+		this.__setCameraBounds(this.viewSize.x, this.viewSize.y);
+		if (this.orbitControls !== null) {
+			this.orbitControls.object = camera;
+		}
+	}
+
+	/**
+	 * Returns the point the camera orbits around, which is the origin without orbit controls.
+	 */
+	private getCameraTarget() {
+		return this.orbitControls?.target.clone() ?? vec3(0, 0, 0);
+	}
+
+	/**
+	 * Returns the distance from a perspective camera at which one world unit covers the given number of pixels.
+	 */
+	private getViewDistance(
+		camera: THREE.PerspectiveCamera,
+		pixelsPerUnit: number,
+	) {
+		const halfHeight = Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2);
+		return (this.viewSize.y * 0.5) / (pixelsPerUnit * halfHeight);
 	}
 
 	/**
@@ -855,12 +2191,96 @@ export class Ctx {
 	}
 
 	/**
-	 * Cleans up objects marked for removal in IMMEDIATE mode.
+	 * Creates a DOM element in the document of the renderer's DOM wrapper.
+	 */
+	private createElement<Tag extends keyof HTMLElementTagNameMap>(tag: Tag) {
+		return this.wrapperRef.ownerDocument.createElement(tag);
+	}
+
+	/**
+	 * Creates the container of a control with a label above it, and adds it to the given panel or folder, or else to
+	 * the renderer's DOM wrapper.
+	 * @returns The container and the label element, if a label was given.
+	 */
+	private createControlContainer(
+		label: string | null,
+		input: HTMLElement,
+		idPrefix: string,
+		panel: Panel | Folder | undefined,
+	) {
+		const container = this.createElement("div");
+		container.classList.add("renderer-input-container");
+		if (this.theme === "dark") {
+			container.classList.add("dark");
+		}
+
+		const labelContainer = this.createElement("div");
+		let labelElement: HTMLLabelElement | null = null;
+		if (label !== null && label !== "") {
+			labelElement = this.createElement("label");
+			labelElement.textContent = label;
+
+			const inputId = `${idPrefix}-${Math.random().toString(36).substring(2)}`;
+			labelElement.htmlFor = inputId;
+			input.id = inputId;
+
+			labelContainer.appendChild(labelElement);
+		}
+
+		container.appendChild(labelContainer);
+		container.appendChild(input);
+		this.appendControl(container, panel);
+
+		return [container, labelElement] as const;
+	}
+
+	/**
+	 * Adds the element of a control to the given panel or folder, or else to the renderer's DOM wrapper.
+	 */
+	private appendControl(
+		element: HTMLElement,
+		panel: Panel | Folder | undefined,
+	) {
+		if (panel !== undefined) {
+			panel.add(element);
+		} else {
+			this.wrapperRef.appendChild(element);
+		}
+	}
+
+	/**
+	 * Registers a control under a unique key and returns the key. Keys derived from labels get a number appended if
+	 * they are taken, while explicitly given keys must be unique.
+	 */
+	private addControl(
+		derivedKey: string,
+		explicitKey: string | undefined,
+		control: PersistentControl,
+	) {
+		let key = explicitKey ?? derivedKey;
+		if (explicitKey !== undefined && this.controls.has(key)) {
+			throw new Error(`Control key "${key}" is already in use.`);
+		}
+		for (let i = 2; this.controls.has(key); i++) {
+			key = `${derivedKey}-${i}`;
+		}
+		this.controls.set(key, control);
+		return key;
+	}
+
+	/**
+	 * Cleans up objects marked for removal in IMMEDIATE mode, and forgets the scene objects they belong to.
 	 */
 	private clearGarbage() {
 		for (const object of this.garbage) {
 			this.sceneRef.remove(object);
 		}
+		if (this.garbage.length > 0) {
+			const garbage = new Set(this.garbage);
+			this.objects = this.objects.filter(
+				(object) => !garbage.has(object.mesh),
+			);
+		}
 		this.garbage = [];
 	}
 
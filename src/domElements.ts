@@ -1,7 +1,11 @@
+import { THREE, type Vec2 } from "./index.ts";
+import { toVec2 } from "./vecUtils.ts";
+import { Observable } from "./reactive.ts";
+
 /**
  * A container for references to the DOM elements used in a slider.
  */
-export class Slider {
+export class Slider extends Observable<number> {
 	/** The container that contains the label and the input slider */
 	container: HTMLDivElement;
 
@@ -17,35 +21,46 @@ export class Slider {
 	/** The span element that displays the current value of the slider */
 	valueLabel: HTMLSpanElement | null;
 
+	/** The key under which the value of the slider is saved when the renderer persists its state */
+	key: string;
+
 	constructor(
 		container: HTMLDivElement,
 		slider: HTMLInputElement,
 		labelContainer: HTMLDivElement,
 		label: HTMLLabelElement | null,
-		valueLabel: HTMLSpanElement | null
+		valueLabel: HTMLSpanElement | null,
+		key: string
 	) {
+		super();
 		this.container = container;
 		this.slider = slider;
 		this.labelContainer = labelContainer;
 		this.label = label;
 		this.valueLabel = valueLabel;
+		this.key = key;
+
+		slider.addEventListener("input", () => this.notify(this.value()));
 	}
 
 	/** Returns the current value of the slider as a number */
 	value = (): number => {
+		this.track();
 		return parseFloat(this.slider.value);
 	};
 
-	/** Sets the value of the slider */
+	/** Sets the value of the slider, and notifies the listeners if it changed */
 	setValue = (value: number) => {
+		const previous = this.slider.value;
 		this.slider.value = value.toString();
+		if (this.slider.value !== previous) this.notify(this.value());
 	};
 }
 
 /**
  * A container for references to the DOM elements used in a checkbox.
  */
-export class Checkbox {
+export class Checkbox extends Observable<boolean> {
 	/** The container that contains the label and the input checkbox */
 	container: HTMLDivElement;
 
@@ -55,23 +70,315 @@ export class Checkbox {
 	/** The label element for the checkbox */
 	label: HTMLLabelElement | null;
 
+	/** The key under which the state of the checkbox is saved when the renderer persists its state */
+	key: string;
+
 	constructor(
 		container: HTMLDivElement,
 		checkbox: HTMLInputElement,
-		label: HTMLLabelElement | null
+		label: HTMLLabelElement | null,
+		key: string
 	) {
+		super();
 		this.container = container;
 		this.checkbox = checkbox;
 		this.label = label;
+		this.key = key;
+
+		checkbox.addEventListener("change", () => this.notify(this.value()));
 	}
 
 	/** Returns whether the checkbox is checked */
 	value = (): boolean => {
+		this.track();
 		return this.checkbox.checked;
 	};
 
-	/** Sets the checked state of the checkbox */
+	/** Sets the checked state of the checkbox, and notifies the listeners if it changed */
 	setValue = (value: boolean) => {
+		if (this.checkbox.checked === value) return;
 		this.checkbox.checked = value;
+		this.notify(value);
+	};
+}
+
+/**
+ * A container for references to the DOM elements used in a dropdown.
+ */
+export class Select extends Observable<string> {
+	/** The container that contains the label and the select element */
+	container: HTMLDivElement;
+
+	/** The select element */
+	select: HTMLSelectElement;
+
+	/** The label element for the dropdown */
+	label: HTMLLabelElement | null;
+
+	/** The key under which the selected option is saved when the renderer persists its state */
+	key: string;
+
+	constructor(
+		container: HTMLDivElement,
+		select: HTMLSelectElement,
+		label: HTMLLabelElement | null,
+		key: string
+	) {
+		super();
+		this.container = container;
+		this.select = select;
+		this.label = label;
+		this.key = key;
+
+		select.addEventListener("change", () => this.notify(this.value()));
+	}
+
+	/** Returns the selected option */
+	value = (): string => {
+		this.track();
+		return this.select.value;
+	};
+
+	/** Selects an option, and notifies the listeners if another option was selected before */
+	setValue = (value: string) => {
+		const previous = this.select.value;
+		this.select.value = value;
+		if (this.select.value !== previous) this.notify(this.value());
+	};
+}
+
+/**
+ * A container for references to the DOM elements used in a color picker.
+ */
+export class ColorPicker extends Observable<THREE.Color> {
+	/** The container that contains the label and the color input */
+	container: HTMLDivElement;
+
+	/** The color input element */
+	input: HTMLInputElement;
+
+	/** The label element for the color picker */
+	label: HTMLLabelElement | null;
+
+	/** The key under which the color is saved when the renderer persists its state */
+	key: string;
+
+	constructor(
+		container: HTMLDivElement,
+		input: HTMLInputElement,
+		label: HTMLLabelElement | null,
+		key: string
+	) {
+		super();
+		this.container = container;
+		this.input = input;
+		this.label = label;
+		this.key = key;
+
+		input.addEventListener("input", () => this.notify(this.value()));
+	}
+
+	/** Returns the picked color */
+	value = (): THREE.Color => {
+		this.track();
+		return new THREE.Color(this.input.value);
 	};
+
+	/** Sets the picked color, and notifies the listeners if it changed */
+	setValue = (value: THREE.ColorRepresentation) => {
+		const previous = this.input.value;
+		this.input.value = `#${new THREE.Color(value).getHexString()}`;
+		if (this.input.value !== previous) this.notify(this.value());
+	};
+}
+
+/**
+ * A container for references to the DOM elements used in a number input.
+ */
+export class NumberInput extends Observable<number> {
+	/** The container that contains the label and the number input */
+	container: HTMLDivElement;
+
+	/** The number input element */
+	input: HTMLInputElement;
+
+	/** The label element for the number input */
+	label: HTMLLabelElement | null;
+
+	/** The key under which the number is saved when the renderer persists its state */
+	key: string;
+
+	constructor(
+		container: HTMLDivElement,
+		input: HTMLInputElement,
+		label: HTMLLabelElement | null,
+		key: string
+	) {
+		super();
+		this.container = container;
+		this.input = input;
+		this.label = label;
+		this.key = key;
+
+		// Listeners aren't called while the input is empty or only contains part of a number, like "-"
+		input.addEventListener("input", () => {
+			if (!isNaN(input.valueAsNumber)) this.notify(this.value());
+		});
+	}
+
+	/** Returns the entered number, or NaN if the input is empty */
+	value = (): number => {
+		this.track();
+		return this.input.valueAsNumber;
+	};
+
+	/** Sets the number, and notifies the listeners if it changed */
+	setValue = (value: number) => {
+		const previous = this.input.value;
+		this.input.value = value.toString();
+		if (this.input.value !== previous) this.notify(this.value());
+	};
+}
+
+/**
+ * A container for references to the DOM elements used in a text input.
+ */
+export class TextInput extends Observable<string> {
+	/** The container that contains the label and the text input */
+	container: HTMLDivElement;
+
+	/** The text input element */
+	input: HTMLInputElement;
+
+	/** The label element for the text input */
+	label: HTMLLabelElement | null;
+
+	/** The key under which the text is saved when the renderer persists its state */
+	key: string;
+
+	constructor(
+		container: HTMLDivElement,
+		input: HTMLInputElement,
+		label: HTMLLabelElement | null,
+		key: string
+	) {
+		super();
+		this.container = container;
+		this.input = input;
+		this.label = label;
+		this.key = key;
+
+		input.addEventListener("input", () => this.notify(this.value()));
+	}
+
+	/** Returns the entered text */
+	value = (): string => {
+		this.track();
+		return this.input.value;
+	};
+
+	/** Sets the text, and notifies the listeners if it changed */
+	setValue = (value: string) => {
+		if (this.input.value === value) return;
+		this.input.value = value;
+		this.notify(value);
+	};
+}
+
+/**
+ * A container for references to the DOM elements used in a 2D pad, an area in which a point is dragged to pick two
+ * values at once.
+ */
+export class Pad extends Observable<THREE.Vector2> {
+	/** The container that contains the label and the area */
+	container: HTMLDivElement;
+
+	/** The area in which the handle is dragged */
+	area: HTMLDivElement;
+
+	/** The handle marking the current value */
+	handle: HTMLDivElement;
+
+	/** The label element for the pad */
+	label: HTMLLabelElement | null;
+
+	/** The span element that displays the current value of the pad */
+	valueLabel: HTMLSpanElement;
+
+	/** The key under which the value of the pad is saved when the renderer persists its state */
+	key: string;
+
+	/** The range of x values, from the left to the right edge of the area */
+	xRange: [number, number];
+
+	/** The range of y values, from the bottom to the top edge of the area */
+	yRange: [number, number];
+
+	/** The current value */
+	private current: THREE.Vector2;
+
+	constructor(
+		container: HTMLDivElement,
+		area: HTMLDivElement,
+		handle: HTMLDivElement,
+		label: HTMLLabelElement | null,
+		valueLabel: HTMLSpanElement,
+		key: string,
+		xRange: [number, number],
+		yRange: [number, number]
+	) {
+		super();
+		this.container = container;
+		this.area = area;
+		this.handle = handle;
+		this.label = label;
+		this.valueLabel = valueLabel;
+		this.key = key;
+		this.xRange = xRange;
+		this.yRange = yRange;
+		this.current = new THREE.Vector2();
+	}
+
+	/** Returns the current value of the pad */
+	value = (): THREE.Vector2 => {
+		this.track();
+		return this.current.clone();
+	};
+
+	/**
+	 * Sets the value of the pad, clamped to its ranges, and moves the handle there. Notifies the listeners if the
+	 * value changed.
+	 */
+	setValue = (value: Vec2) => {
+		const [xMin, xMax] = this.xRange;
+		const [yMin, yMax] = this.yRange;
+		const { x, y } = toVec2(value);
+		const previous = this.current.clone();
+		this.current.set(
+			THREE.MathUtils.clamp(
+				x,
+				Math.min(xMin, xMax),
+				Math.max(xMin, xMax)
+			),
+			THREE.MathUtils.clamp(
+				y,
+				Math.min(yMin, yMax),
+				Math.max(yMin, yMax)
+			)
+		);
+
+		const left = ((this.current.x - xMin) / (xMax - xMin)) * 100;
+		const top = ((yMax - this.current.y) / (yMax - yMin)) * 100;
+		this.handle.style.left = `${left}%`;
+		this.handle.style.top = `${top}%`;
+		const { x: currentX, y: currentY } = this.current;
+		this.valueLabel.textContent = `${this.format(currentX)}, ${this.format(currentY)}`;
+
+		if (!this.current.equals(previous)) this.notify(this.value());
+	};
+
+	/** Formats a value for the value label with at most two decimals */
+	private format(value: number) {
+		return parseFloat(value.toFixed(2)).toString();
+	}
 }
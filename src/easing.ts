@@ -0,0 +1,95 @@
+/** A function mapping linear progress between 0 and 1 to eased progress. */
+export type EasingFn = (t: number) => number;
+
+const BACK_OVERSHOOT = 1.70158;
+
+const bounceOut: EasingFn = (t) => {
+	const n = 7.5625;
+	const d = 2.75;
+	if (t < 1 / d) return n * t * t;
+	if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+	if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+	return n * (t -= 2.625 / d) * t + 0.984375;
+};
+
+/**
+ * A collection of common easing functions. `In` variants start slowly, `Out` variants end slowly and `InOut` variants
+ * do both. See https://easings.net for previews.
+ * ### Example
+ * ```js
+ * ctx.sphere(10).animate({ pos: [100, 0, 0] }, 1, easing.bounceOut);
+ *
+ * // Easing functions can also be given by name
+ * ctx.sphere(10).animate({ pos: [100, 0, 0] }, 1, "backInOut");
+ * ```
+ */
+export const easing = {
+	linear: (t: number) => t,
+
+	quadIn: (t: number) => t * t,
+	quadOut: (t: number) => 1 - (1 - t) * (1 - t),
+	quadInOut: (t: number) =>
+		t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+
+	cubicIn: (t: number) => t * t * t,
+	cubicOut: (t: number) => 1 - Math.pow(1 - t, 3),
+	cubicInOut: (t: number) =>
+		t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+
+	sineIn: (t: number) => 1 - Math.cos((t * Math.PI) / 2),
+	sineOut: (t: number) => Math.sin((t * Math.PI) / 2),
+	sineInOut: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+
+	expoIn: (t: number) => (t === 0 ? 0 : Math.pow(2, 10 * t - 10)),
+	expoOut: (t: number) => (t === 1 ? 1 : 1 - Math.pow(2, -10 * t)),
+	expoInOut: (t: number) => {
+		if (t === 0 || t === 1) return t;
+		return t < 0.5
+			? Math.pow(2, 20 * t - 10) / 2
+			: (2 - Math.pow(2, -20 * t + 10)) / 2;
+	},
+
+	backIn: (t: number) =>
+		(BACK_OVERSHOOT + 1) * t * t * t - BACK_OVERSHOOT * t * t,
+	backOut: (t: number) =>
+		1 +
+		(BACK_OVERSHOOT + 1) * Math.pow(t - 1, 3) +
+		BACK_OVERSHOOT * Math.pow(t - 1, 2),
+	backInOut: (t: number) => {
+		const c = BACK_OVERSHOOT * 1.525;
+		return t < 0.5
+			? (Math.pow(2 * t, 2) * ((c + 1) * 2 * t - c)) / 2
+			: (Math.pow(2 * t - 2, 2) * ((c + 1) * (t * 2 - 2) + c) + 2) / 2;
+	},
+
+	elasticIn: (t: number) => {
+		if (t === 0 || t === 1) return t;
+		return (
+			-Math.pow(2, 10 * t - 10) *
+			Math.sin(((t * 10 - 10.75) * (2 * Math.PI)) / 3)
+		);
+	},
+	elasticOut: (t: number) => {
+		if (t === 0 || t === 1) return t;
+		return (
+			Math.pow(2, -10 * t) *
+				Math.sin(((t * 10 - 0.75) * (2 * Math.PI)) / 3) +
+			1
+		);
+	},
+
+	bounceIn: (t: number) => 1 - bounceOut(1 - t),
+	bounceOut,
+	bounceInOut: (t: number) =>
+		t < 0.5
+			? (1 - bounceOut(1 - 2 * t)) / 2
+			: (1 + bounceOut(2 * t - 1)) / 2,
+} satisfies Record<string, EasingFn>;
+
+/** The name of one of the built-in easing functions. */
+export type EasingName = keyof typeof easing;
+
+/** Resolves an easing function or the name of a built-in easing function. */
+export const toEasingFn = (value: EasingFn | EasingName): EasingFn => {
+	return typeof value === "function" ? value : easing[value];
+};
@@ -0,0 +1,277 @@
+/**
+ * A growable byte buffer.
+ */
+class ByteWriter {
+	/** The underlying storage, of which the first {@link length} bytes are used. */
+	private bytes: Uint8Array<ArrayBuffer>;
+
+	/** The number of bytes written. */
+	length: number;
+
+	constructor() {
+		this.bytes = new Uint8Array(4096);
+		this.length = 0;
+	}
+
+	/** Appends a single byte. */
+	byte(value: number) {
+		if (this.length === this.bytes.length) {
+			const grown = new Uint8Array(this.bytes.length * 2);
+			grown.set(this.bytes);
+			this.bytes = grown;
+		}
+		this.bytes[this.length++] = value;
+	}
+
+	/** Appends a 16-bit little-endian number. */
+	short(value: number) {
+		this.byte(value & 0xff);
+		this.byte((value >> 8) & 0xff);
+	}
+
+	/** Appends the character codes of an ASCII string. */
+	ascii(value: string) {
+		for (let i = 0; i < value.length; i++) {
+			this.byte(value.charCodeAt(i));
+		}
+	}
+
+	/** Returns a copy of the written bytes. */
+	data() {
+		return this.bytes.slice(0, this.length);
+	}
+}
+
+/**
+ * Reduces the colors of an image to at most 256. Colors are grouped into bins of 5 bits per channel, and the most
+ * common bins make up the palette. This suits figures with few, flat colors well, and is fast enough to run on every
+ * frame.
+ * @returns The palette as RGB triples and the palette index of each pixel.
+ */
+const quantize = (image: ImageData) => {
+	const pixelCount = image.width * image.height;
+	const data = image.data;
+
+	const counts = new Uint32Array(32768);
+	const sums = new Uint32Array(32768 * 3);
+	const bins = new Uint16Array(pixelCount);
+	for (let i = 0; i < pixelCount; i++) {
+		const r = data[i * 4]!;
+		const g = data[i * 4 + 1]!;
+		const b = data[i * 4 + 2]!;
+		const bin = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+		bins[i] = bin;
+		counts[bin]!++;
+		sums[bin * 3] = sums[bin * 3]! + r;
+		sums[bin * 3 + 1] = sums[bin * 3 + 1]! + g;
+		sums[bin * 3 + 2] = sums[bin * 3 + 2]! + b;
+	}
+
+	const used: number[] = [];
+	for (let bin = 0; bin < counts.length; bin++) {
+		if (counts[bin]! > 0) used.push(bin);
+	}
+	used.sort((a, b) => counts[b]! - counts[a]!);
+
+	// Each palette color is the average of the colors in its bin.
+	const paletteBins = used.slice(0, 256);
+	const palette = new Uint8Array(256 * 3);
+	paletteBins.forEach((bin, i) => {
+		for (let c = 0; c < 3; c++) {
+			palette[i * 3 + c] = Math.round(sums[bin * 3 + c]! / counts[bin]!);
+		}
+	});
+
+	// Bins that didn't make it into the palette are mapped to the closest palette color.
+	const binToIndex = new Int16Array(32768).fill(-1);
+	paletteBins.forEach((bin, i) => (binToIndex[bin] = i));
+	for (const bin of used.slice(256)) {
+		const r = sums[bin * 3]! / counts[bin]!;
+		const g = sums[bin * 3 + 1]! / counts[bin]!;
+		const b = sums[bin * 3 + 2]! / counts[bin]!;
+		let closest = 0;
+		let closestDistance = Number.POSITIVE_INFINITY;
+		for (let i = 0; i < paletteBins.length; i++) {
+			const dr = palette[i * 3]! - r;
+			const dg = palette[i * 3 + 1]! - g;
+			const db = palette[i * 3 + 2]! - b;
+			const distance = dr * dr + dg * dg + db * db;
+			if (distance < closestDistance) {
+				closest = i;
+				closestDistance = distance;
+			}
+		}
+		binToIndex[bin] = closest;
+	}
+
+	const indices = new Uint8Array(pixelCount);
+	for (let i = 0; i < pixelCount; i++) {
+		indices[i] = binToIndex[bins[i]!]!;
+	}
+	return { palette, indices };
+};
+
+/**
+ * Writes palette indices as LZW compressed image data, split into sub-blocks of at most 255 bytes.
+ */
+const writeLzw = (out: ByteWriter, indices: Uint8Array) => {
+	const minCodeSize = 8;
+	const clearCode = 1 << minCodeSize;
+	const endCode = clearCode + 1;
+
+	let codeSize = minCodeSize + 1;
+	let nextCode = endCode + 1;
+	let table = new Map<number, number>();
+
+	let block: number[] = [];
+	let bits = 0;
+	let bitCount = 0;
+
+	const writeCode = (code: number) => {
+		bits |= code << bitCount;
+		bitCount += codeSize;
+		while (bitCount >= 8) {
+			block.push(bits & 0xff);
+			bits >>= 8;
+			bitCount -= 8;
+			if (block.length === 255) {
+				out.byte(255);
+				block.forEach((b) => out.byte(b));
+				block = [];
+			}
+		}
+	};
+
+	out.byte(minCodeSize);
+	writeCode(clearCode);
+
+	let prefix = indices[0] ?? 0;
+	for (let i = 1; i < indices.length; i++) {
+		const index = indices[i]!;
+		const key = (prefix << 8) | index;
+		const code = table.get(key);
+		if (code !== undefined) {
+			prefix = code;
+			continue;
+		}
+
+		writeCode(prefix);
+		if (nextCode === 4096) {
+			// The table is full, so it is reset.
+			writeCode(clearCode);
+			codeSize = minCodeSize + 1;
+			nextCode = endCode + 1;
+			table = new Map();
+		} else {
+			if (nextCode >= 1 << codeSize) codeSize++;
+			table.set(key, nextCode++);
+		}
+		prefix = index;
+	}
+	writeCode(prefix);
+	writeCode(endCode);
+
+	if (bitCount > 0) block.push(bits & 0xff);
+	for (let i = 0; i < block.length; i += 255) {
+		const part = block.slice(i, i + 255);
+		out.byte(part.length);
+		part.forEach((b) => out.byte(b));
+	}
+	out.byte(0);
+};
+
+/**
+ * Encodes frames into an animated GIF that loops forever. Each frame gets its own palette of up to 256 colors.
+ * ### Example
+ * ```js
+ * const encoder = new GifEncoder(640, 480, 1 / 30);
+ * encoder.addFrame(context2d.getImageData(0, 0, 640, 480));
+ * const blob = encoder.finish();
+ * ```
+ */
+export class GifEncoder {
+	/** Width of the frames in pixels. */
+	private readonly width: number;
+
+	/** Height of the frames in pixels. */
+	private readonly height: number;
+
+	/** Time each frame is shown, in hundredths of a second as stored in the GIF. */
+	private readonly delay: number;
+
+	/** The encoded data. */
+	private readonly out: ByteWriter;
+
+	/**
+	 * @param width Width of the frames in pixels.
+	 * @param height Height of the frames in pixels.
+	 * @param frameDuration Time each frame is shown in seconds. GIFs store this in hundredths of a second, so it is
+	 * rounded, with a minimum of 0.02 seconds since browsers slow down shorter frames.
+	 */
+	constructor(width: number, height: number, frameDuration: number) {
+		this.width = width;
+		this.height = height;
+		this.delay = Math.max(Math.round(frameDuration * 100), 2);
+		this.out = new ByteWriter();
+
+		const out = this.out;
+		out.ascii("GIF89a");
+		out.short(width);
+		out.short(height);
+		out.byte(0); // No global color table
+		out.byte(0); // Background color index
+		out.byte(0); // Pixel aspect ratio
+
+		// Application extension to loop forever.
+		out.byte(0x21);
+		out.byte(0xff);
+		out.byte(11);
+		out.ascii("NETSCAPE2.0");
+		out.byte(3);
+		out.byte(1);
+		out.short(0);
+		out.byte(0);
+	}
+
+	/**
+	 * Adds a frame. The image must have the size given to the constructor. Transparency is ignored.
+	 */
+	addFrame(image: ImageData) {
+		if (image.width !== this.width || image.height !== this.height) {
+			throw new Error(
+				`Frame size must match GIF size. Expected ${this.width}x${this.height}, got ${image.width}x${image.height}.`,
+			);
+		}
+
+		const { palette, indices } = quantize(image);
+		const out = this.out;
+
+		// Graphic control extension with the frame delay.
+		out.byte(0x21);
+		out.byte(0xf9);
+		out.byte(4);
+		out.byte(0);
+		out.short(this.delay);
+		out.byte(0);
+		out.byte(0);
+
+		// Image descriptor with a local color table of 256 colors.
+		out.byte(0x2c);
+		out.short(0);
+		out.short(0);
+		out.short(this.width);
+		out.short(this.height);
+		out.byte(0x80 | 7);
+		palette.forEach((b) => out.byte(b));
+
+		writeLzw(out, indices);
+	}
+
+	/**
+	 * Finishes the GIF and returns it. No frames can be added afterwards.
+	 */
+	finish() {
+		this.out.byte(0x3b);
+		return new Blob([this.out.data()], { type: "image/gif" });
+	}
+}
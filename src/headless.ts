@@ -0,0 +1,351 @@
+import { LineSegments2 } from "three/addons/lines/LineSegments2.js";
+import { Ctx } from "./ctx.ts";
+import { THREE } from "./index.ts";
+import { toHex, toTuple } from "./serialization.ts";
+import type { ControlValue } from "./persistence.ts";
+
+/** An object in a {@link HeadlessCtx.snapshot}. Properties that don't apply to the object are left out. */
+export type SnapshotNode = {
+	/** The type name of an object created by the context, like "Sphere", or else the three.js type, like "Group". */
+	type: string;
+	/** The position relative to the parent, rounded to six decimals. */
+	position: [number, number, number];
+	/** The color of the material, as a CSS hex string. */
+	color?: string;
+	/** The number of vertices of a mesh, line or point cloud. Thick lines count two per segment. */
+	vertices?: number;
+	/** The number of instances of an instanced mesh. */
+	instances?: number;
+	/** Present, and false, if the object is hidden. */
+	visible?: false;
+	/** The children of the object, in order. */
+	children?: SnapshotNode[];
+};
+
+/**
+ * A context without a DOM or a WebGL renderer, for testing drawing functions in Node. It builds the same scene as a
+ * renderer would, but nothing is drawn and time only advances when {@link tick} is called. Controls work like in a
+ * browser, so their values can be set with their `setValue` methods or by key with {@link setControl}. Created with
+ * {@link createHeadlessCtx}.
+ */
+export class HeadlessCtx extends Ctx {
+	/** The scene the context adds objects to. */
+	readonly scene: THREE.Scene;
+
+	/** The time in seconds passed to the update functions, which is the sum of all ticks. */
+	private elapsed: number;
+
+	constructor(width: number, height: number) {
+		const scene = new THREE.Scene();
+		const wrapper = new HeadlessDocument().createElement("div");
+		wrapper.clientWidth = width;
+		wrapper.clientHeight = height;
+		super(scene, wrapper as unknown as HTMLDivElement);
+
+		this.scene = scene;
+		this.elapsed = 0;
+		this.__setCameraBounds(width, height);
+	}
+
+	/**
+	 * Advances time like one animation frame: tweens and timelines are stepped, and the update functions are called.
+	 * Objects spawned by update functions in the previous tick are removed first.
+	 * ### Example
+	 * ```js
+	 * const ctx = createHeadlessCtx();
+	 * drawOrbit(ctx);
+	 * for (let i = 0; i < 60; i++) ctx.tick(1 / 60);
+	 * ```
+	 * @param dt The time since the previous tick in seconds.
+	 */
+	tick = (dt: number) => {
+		this.elapsed += dt;
+		this.__tick(dt, this.elapsed);
+	};
+
+	/**
+	 * Sets the value of a control as if the user had changed it, which notifies its listeners.
+	 * ### Example
+	 * ```js
+	 * ctx.slider("Line width", 1, 10);
+	 * ctx.setControl("line-width", 5);
+	 * ```
+	 * @param key The key of the control, which defaults to one derived from its label.
+	 * @param value The new value, in the form saved when the renderer persists its state. For example, colors are
+	 * hex strings and pads are arrays of two numbers.
+	 */
+	setControl = (key: string, value: ControlValue) => {
+		const control = this.__getControls().get(key);
+		if (control === undefined) {
+			throw new Error(`No control with key "${key}".`);
+		}
+		control.restore(value);
+	};
+
+	/**
+	 * Returns a description of the objects in the scene that is stable between runs, to compare against an expected
+	 * snapshot in tests.
+	 * ### Example
+	 * ```js
+	 * const ctx = createHeadlessCtx();
+	 * ctx.sphere(10).pos([0, 20, 0]).color("red");
+	 * expect(ctx.snapshot()).toMatchSnapshot();
+	 * ```
+	 * @returns One node per object in the scene, including the light added by the context.
+	 */
+	snapshot = (): SnapshotNode[] => {
+		const types = new Map<THREE.Object3D, string>();
+		for (const object of this.__getObjects()) {
+			types.set(object.mesh, object.typeName);
+		}
+		return this.scene.children.map((child) => snapshotNode(child, types));
+	};
+}
+
+/**
+ * Creates a context that doesn't need a browser, for unit tests of drawing functions. See {@link HeadlessCtx}.
+ * ### Example
+ * ```js
+ * const ctx = createHeadlessCtx();
+ * const radius = ctx.slider("Radius", 1, 100, 10);
+ * const sphere = ctx.sphere(1);
+ * radius.bind(sphere, (sphere, radius) => sphere.radius(radius));
+ *
+ * radius.setValue(50);
+ * ctx.tick(1 / 60);
+ * console.log(ctx.snapshot());
+ * ```
+ * @param config (Optional) The size in pixels of the renderer to simulate, which sets the camera bounds and the range
+ * of the mouse position. Defaults to 800 by 600.
+ * @returns The created {@link HeadlessCtx}.
+ */
+export const createHeadlessCtx = (config?: {
+	width?: number;
+	height?: number;
+}) => new HeadlessCtx(config?.width ?? 800, config?.height ?? 600);
+
+/**
+ * Describes an object and its descendants. Types of objects created by the context are looked up in the given map.
+ */
+const snapshotNode = (
+	object: THREE.Object3D,
+	types: ReadonlyMap<THREE.Object3D, string>,
+): SnapshotNode => {
+	const node: SnapshotNode = {
+		type: types.get(object) ?? object.type,
+		position: toTuple(object.position).map(
+			round,
+		) as SnapshotNode["position"],
+	};
+
+	if ("material" in object) {
+		const material = [object.material].flat()[0] as THREE.Material;
+		if ("color" in material) {
+			node.color = toHex(material.color as THREE.Color);
+		}
+	}
+
+	if (object instanceof LineSegments2) {
+		node.vertices = object.geometry.getAttribute("instanceStart").count * 2;
+	} else if (
+		object instanceof THREE.Mesh ||
+		object instanceof THREE.Line ||
+		object instanceof THREE.Points
+	) {
+		node.vertices = object.geometry.getAttribute("position")?.count ?? 0;
+	}
+	if (object instanceof THREE.InstancedMesh) {
+		node.instances = object.count;
+	}
+
+	if (!object.visible) {
+		node.visible = false;
+	}
+	if (object.children.length > 0) {
+		node.children = object.children.map((child) =>
+			snapshotNode(child, types),
+		);
+	}
+	return node;
+};
+
+/** Rounds to six decimals, so that floating point noise and negative zero don't change snapshots. */
+const round = (value: number) => Math.round(value * 1e6) / 1e6 + 0;
+
+/**
+ * The part of a DOM document used by the context and the orbit controls, for running without a browser.
+ */
+class HeadlessDocument extends EventTarget {
+	/** The body, which receives the mouse events the context listens to. */
+	readonly body: HeadlessElement;
+
+	constructor() {
+		super();
+		this.body = new HeadlessElement("body", this);
+	}
+
+	createElement(tagName: string) {
+		return new HeadlessElement(tagName, this);
+	}
+}
+
+/**
+ * The part of a DOM element used by the context, its controls, panels and timelines. Elements form a tree and
+ * dispatch events to their own listeners, but nothing is laid out, so their size is always zero. Range inputs clamp
+ * their value like in a browser, but don't snap it to the step.
+ */
+class HeadlessElement extends EventTarget {
+	readonly tagName: string;
+	readonly ownerDocument: HeadlessDocument;
+	readonly children: HeadlessElement[];
+	readonly classList: HeadlessClassList;
+	readonly style: Record<string, string>;
+	parentElement: HeadlessElement | null;
+	clientWidth: number;
+	clientHeight: number;
+
+	// Properties of the different element types, like inputs, labels and details.
+	id = "";
+	type = "";
+	min = "";
+	max = "";
+	step = "";
+	placeholder = "";
+	htmlFor = "";
+	checked = false;
+	hidden = false;
+	open = false;
+	textContent: string | null = "";
+	onclick: ((event: Event) => void) | null = null;
+
+	/** The value of an input, select or option. */
+	private currentValue: string;
+
+	constructor(tagName: string, ownerDocument: HeadlessDocument) {
+		super();
+		this.tagName = tagName.toUpperCase();
+		this.ownerDocument = ownerDocument;
+		this.children = [];
+		this.classList = new HeadlessClassList();
+		this.style = {};
+		this.parentElement = null;
+		this.clientWidth = 0;
+		this.clientHeight = 0;
+		this.currentValue = "";
+	}
+
+	get value() {
+		return this.currentValue;
+	}
+
+	set value(value: string) {
+		if (this.tagName === "INPUT" && this.type === "range") {
+			// Browsers default to a range from 0 to 100, and to its middle for values that aren't numbers.
+			const min = this.min === "" ? 0 : parseFloat(this.min);
+			const max = Math.max(
+				min,
+				this.max === "" ? 100 : parseFloat(this.max),
+			);
+			const number = parseFloat(value);
+			value = isNaN(number)
+				? ((min + max) / 2).toString()
+				: THREE.MathUtils.clamp(number, min, max).toString();
+		} else if (this.tagName === "SELECT") {
+			// Selecting a value that isn't one of the options clears the selection.
+			if (!this.children.some((option) => option.value === value)) {
+				value = "";
+			}
+		}
+		this.currentValue = value;
+	}
+
+	get valueAsNumber() {
+		return this.currentValue.trim() === ""
+			? NaN
+			: Number(this.currentValue);
+	}
+
+	get firstElementChild(): HeadlessElement | null {
+		return this.children[0] ?? null;
+	}
+
+	appendChild<Child extends HeadlessElement>(child: Child) {
+		child.remove();
+		this.children.push(child);
+		child.parentElement = this;
+		return child;
+	}
+
+	append(...children: HeadlessElement[]) {
+		for (const child of children) {
+			this.appendChild(child);
+		}
+	}
+
+	remove() {
+		if (this.parentElement !== null) {
+			const siblings = this.parentElement.children;
+			siblings.splice(siblings.indexOf(this), 1);
+			this.parentElement = null;
+		}
+	}
+
+	/** Returns the document, as if the element had been added to it. */
+	getRootNode() {
+		return this.ownerDocument;
+	}
+
+	/** Calls the click listeners, like a click by the user. */
+	click() {
+		const event = new Event("click", { bubbles: true });
+		this.onclick?.(event);
+		this.dispatchEvent(event);
+	}
+
+	getBoundingClientRect() {
+		const { clientWidth: width, clientHeight: height } = this;
+		return {
+			x: 0,
+			y: 0,
+			left: 0,
+			top: 0,
+			right: width,
+			bottom: height,
+			width,
+			height,
+		};
+	}
+
+	setPointerCapture() {}
+
+	releasePointerCapture() {}
+
+	hasPointerCapture() {
+		return false;
+	}
+}
+
+/**
+ * The part of a DOM class list used by the context.
+ */
+class HeadlessClassList {
+	private readonly names = new Set<string>();
+
+	add(...names: string[]) {
+		for (const name of names) this.names.add(name);
+	}
+
+	remove(...names: string[]) {
+		for (const name of names) this.names.delete(name);
+	}
+
+	toggle(name: string, force = !this.names.has(name)) {
+		if (force) this.names.add(name);
+		else this.names.delete(name);
+		return force;
+	}
+
+	contains(name: string) {
+		return this.names.has(name);
+	}
+}
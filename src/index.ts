@@ -1,5 +1,5 @@
 export { Renderer } from "./renderer.ts";
-export { Ctx } from "./ctx.ts";
+export { Ctx, type SceneCamera } from "./ctx.ts";
 export {
 	vec2,
 	vec3,
@@ -9,8 +9,37 @@ export {
 	type Vec3,
 	type Vec4,
 } from "./vecUtils.ts";
+export { complex, Complex, type ComplexLike } from "./complex.ts";
 export { noise, fbm } from "./rng.ts";
 export { color } from "./colorUtils.ts";
+export type { PickEvent, PickHandler } from "./picking.ts";
+export { easing, type EasingFn, type EasingName } from "./easing.ts";
+export type {
+	Animation,
+	ParallelAnimation,
+	SequenceAnimation,
+	Tween,
+} from "./tween.ts";
+export type { ObjectKeyframe, Timeline, ValueKeyframe } from "./timeline.ts";
+export type { Folder, Panel, PanelItem, PanelPosition } from "./panel.ts";
+export type { ChangeListener, Computed, Observable } from "./reactive.ts";
+export type { ModelExportOptions, ModelFormat } from "./modelExport.ts";
+export {
+	sceneSchema,
+	type SerializedObject,
+	type SerializedScene,
+	type SerializedStyle,
+} from "./serialization.ts";
+export {
+	createHeadlessCtx,
+	type HeadlessCtx,
+	type SnapshotNode,
+} from "./headless.ts";
+export {
+	hashStorage,
+	type PersistOptions,
+	type StateStorage,
+} from "./persistence.ts";
 
 // TODO: Still wondering whether we should re-export THREE or not.
 export * as THREE from "three";
@@ -0,0 +1,285 @@
+import { THREE } from "./index.ts";
+import { GLTFExporter } from "three/addons/exporters/GLTFExporter.js";
+import { OBJExporter } from "three/addons/exporters/OBJExporter.js";
+import { STLExporter } from "three/addons/exporters/STLExporter.js";
+import { LineSegments2 } from "three/addons/lines/LineSegments2.js";
+import { LineMaterial } from "three/addons/lines/LineMaterial.js";
+import { mergeVertices } from "three/addons/utils/BufferGeometryUtils.js";
+
+export type ModelFormat = "gltf" | "glb" | "obj" | "stl";
+
+export type ModelExportOptions = {
+	/** Whether to leave out helpers, like grids, and lights. Default is false. */
+	excludeHelpers?: boolean;
+	/**
+	 * Only for STL. Surfaces that aren't closed, like graphs and height fields, are thickened by this amount into
+	 * watertight solids that can be 3D printed. By default, surfaces are exported as they are.
+	 */
+	thickness?: number;
+};
+
+/** The MIME type of each format. */
+const MIME_TYPES: Record<ModelFormat, string> = {
+	gltf: "model/gltf+json",
+	glb: "model/gltf-binary",
+	obj: "model/obj",
+	stl: "model/stl",
+};
+
+/** Whether an object is a helper, like a grid, rather than part of the content. */
+const isHelper = (object: THREE.Object3D) =>
+	object instanceof THREE.Light || object.type.endsWith("Helper");
+
+/**
+ * Exports the visible objects of a scene as a 3D model. Transforms are baked into the vertex positions, and lines
+ * drawn with LineMaterial are converted to plain line segments, which glTF and OBJ support.
+ */
+export const exportModel = async (
+	scene: THREE.Scene,
+	format: ModelFormat,
+	options?: ModelExportOptions,
+): Promise<Blob> => {
+	const baked = bakeScene(scene, options?.excludeHelpers ?? false);
+	const type = MIME_TYPES[format];
+
+	switch (format) {
+		case "gltf":
+		case "glb": {
+			const binary = format === "glb";
+			const result = await new GLTFExporter().parseAsync(baked, {
+				binary,
+			});
+			return new Blob(
+				[binary ? (result as ArrayBuffer) : JSON.stringify(result)],
+				{ type },
+			);
+		}
+		case "obj":
+			return new Blob([new OBJExporter().parse(baked)], { type });
+		case "stl": {
+			if (options?.thickness !== undefined) {
+				thickenSurfaces(baked, options.thickness);
+			}
+			const data = new STLExporter().parse(baked, { binary: true });
+			return new Blob([data], { type });
+		}
+	}
+};
+
+/**
+ * Returns a new scene with a copy of every visible mesh, line and point cloud, with its world transform applied to
+ * its geometry. Instanced meshes are split into one mesh per instance.
+ */
+const bakeScene = (scene: THREE.Scene, excludeHelpers: boolean) => {
+	scene.updateMatrixWorld();
+	const baked = new THREE.Scene();
+
+	const bake = <T extends THREE.Object3D>(
+		object: T,
+		matrix: THREE.Matrix4,
+	) => {
+		object.name = object.name || object.type;
+		if ("geometry" in object) {
+			const geometry = object.geometry as THREE.BufferGeometry;
+			geometry.applyMatrix4(matrix);
+		}
+		baked.add(object);
+	};
+
+	scene.traverseVisible((object) => {
+		if (excludeHelpers && isHelper(object)) return;
+
+		if (object instanceof THREE.Light) {
+			const light = object.clone(false);
+			object.getWorldPosition(light.position);
+			baked.add(light);
+		} else if (object instanceof LineSegments2) {
+			bake(lineSegments2ToLineSegments(object), object.matrixWorld);
+		} else if (object instanceof THREE.InstancedMesh) {
+			const instanceMatrix = new THREE.Matrix4();
+			const instanceColor = new THREE.Color();
+			for (let i = 0; i < object.count; i++) {
+				object.getMatrixAt(i, instanceMatrix);
+				const material = cloneMaterial(object.material);
+				if (object.instanceColor !== null && "color" in material) {
+					object.getColorAt(i, instanceColor);
+					(material.color as THREE.Color).multiply(instanceColor);
+				}
+				bake(
+					new THREE.Mesh(object.geometry.clone(), material),
+					object.matrixWorld.clone().multiply(instanceMatrix),
+				);
+			}
+		} else if (
+			object instanceof THREE.Mesh ||
+			object instanceof THREE.Line ||
+			object instanceof THREE.Points
+		) {
+			const copy = object.clone(false);
+			copy.geometry = object.geometry.clone();
+			copy.position.set(0, 0, 0);
+			copy.quaternion.identity();
+			copy.scale.set(1, 1, 1);
+			bake(copy, object.matrixWorld);
+		}
+	});
+
+	baked.updateMatrixWorld();
+	return baked;
+};
+
+/** Returns a copy of a material, using the first one of a material array. */
+const cloneMaterial = (material: THREE.Material | THREE.Material[]) => {
+	return (Array.isArray(material) ? material[0]! : material).clone();
+};
+
+/**
+ * Converts lines drawn with LineMaterial, which exporters don't know about, to plain line segments with the same
+ * color.
+ */
+const lineSegments2ToLineSegments = (line: LineSegments2) => {
+	const geometry = line.geometry;
+	const material = line.material as LineMaterial;
+	const starts = geometry.attributes.instanceStart!;
+	const ends = geometry.attributes.instanceEnd!;
+	const colorStarts = geometry.attributes.instanceColorStart;
+	const colorEnds = geometry.attributes.instanceColorEnd;
+	const vertexColors =
+		material.vertexColors &&
+		colorStarts !== undefined &&
+		colorEnds !== undefined;
+
+	const count = Math.min(starts.count, geometry.instanceCount);
+	const positions = new Float32Array(count * 6);
+	const colors = new Float32Array(count * 6);
+	for (let i = 0; i < count; i++) {
+		positions.set([starts.getX(i), starts.getY(i), starts.getZ(i)], i * 6);
+		positions.set([ends.getX(i), ends.getY(i), ends.getZ(i)], i * 6 + 3);
+		if (vertexColors) {
+			colors.set(
+				[colorStarts.getX(i), colorStarts.getY(i), colorStarts.getZ(i)],
+				i * 6,
+			);
+			colors.set(
+				[colorEnds.getX(i), colorEnds.getY(i), colorEnds.getZ(i)],
+				i * 6 + 3,
+			);
+		}
+	}
+
+	const lineGeometry = new THREE.BufferGeometry();
+	lineGeometry.setAttribute(
+		"position",
+		new THREE.BufferAttribute(positions, 3),
+	);
+	if (vertexColors) {
+		lineGeometry.setAttribute(
+			"color",
+			new THREE.BufferAttribute(colors, 3),
+		);
+	}
+	return new THREE.LineSegments(
+		lineGeometry,
+		new THREE.LineBasicMaterial({
+			color: material.color,
+			vertexColors,
+			transparent: material.transparent,
+			opacity: material.opacity,
+		}),
+	);
+};
+
+/**
+ * Replaces the geometry of every mesh that isn't closed with a solid made of two copies of the surface, offset along
+ * the normals by half the thickness each, with walls along the open edges.
+ */
+const thickenSurfaces = (scene: THREE.Scene, thickness: number) => {
+	scene.traverse((object) => {
+		if (object instanceof THREE.Mesh) {
+			const solid = thicken(object.geometry, thickness);
+			if (solid !== null) object.geometry = solid;
+		}
+	});
+};
+
+/**
+ * Returns a thickened copy of a geometry, or null if it is already closed.
+ */
+const thicken = (geometry: THREE.BufferGeometry, thickness: number) => {
+	// Vertices are merged by position only, so that seams in the UVs or normals don't count as open edges.
+	const positionOnly = new THREE.BufferGeometry();
+	positionOnly.setAttribute("position", geometry.attributes.position!);
+	if (geometry.index !== null) positionOnly.setIndex(geometry.index);
+	const merged = mergeVertices(positionOnly);
+	const index = merged.index!;
+	const positions = merged.attributes.position!;
+
+	const triangles: [number, number, number][] = [];
+	for (let i = 0; i + 2 < index.count; i += 3) {
+		const a = index.getX(i);
+		const b = index.getX(i + 1);
+		const c = index.getX(i + 2);
+		// Degenerate triangles, like the ones at the poles of a sphere, have no area and no edges.
+		if (a !== b && b !== c && c !== a) triangles.push([a, b, c]);
+	}
+
+	// An edge is open if no other triangle runs along it in the opposite direction.
+	const edges = new Set<string>();
+	for (const [a, b, c] of triangles) {
+		edges.add(`${a},${b}`);
+		edges.add(`${b},${c}`);
+		edges.add(`${c},${a}`);
+	}
+	const openEdges: [number, number][] = [];
+	for (const [a, b, c] of triangles) {
+		for (const [from, to] of [
+			[a, b],
+			[b, c],
+			[c, a],
+		] as const) {
+			if (!edges.has(`${to},${from}`)) openEdges.push([from, to]);
+		}
+	}
+	if (openEdges.length === 0) return null;
+
+	merged.computeVertexNormals();
+	const normals = merged.attributes.normal!;
+	const vertexCount = positions.count;
+	const solidPositions = new Float32Array(vertexCount * 6);
+	const point = new THREE.Vector3();
+	const normal = new THREE.Vector3();
+	for (let i = 0; i < vertexCount; i++) {
+		point.fromBufferAttribute(positions, i);
+		normal.fromBufferAttribute(normals, i).multiplyScalar(thickness / 2);
+		point
+			.clone()
+			.add(normal)
+			.toArray(solidPositions, i * 3);
+		point
+			.clone()
+			.sub(normal)
+			.toArray(solidPositions, (vertexCount + i) * 3);
+	}
+
+	// The top surface keeps the original winding, the bottom surface is flipped, and the walls follow the open edges
+	// in the opposite direction to the top surface so that they face outwards.
+	const bottom = (i: number) => vertexCount + i;
+	const solidIndex: number[] = [];
+	for (const [a, b, c] of triangles) {
+		solidIndex.push(a, b, c);
+		solidIndex.push(bottom(a), bottom(c), bottom(b));
+	}
+	for (const [a, b] of openEdges) {
+		solidIndex.push(b, a, bottom(a));
+		solidIndex.push(b, bottom(a), bottom(b));
+	}
+
+	const solid = new THREE.BufferGeometry();
+	solid.setAttribute(
+		"position",
+		new THREE.BufferAttribute(solidPositions, 3),
+	);
+	solid.setIndex(solidIndex);
+	solid.computeVertexNormals();
+	return solid;
+};
@@ -1,13 +1,16 @@
 import { Ctx, THREE, type Vec3 } from "../index.ts";
-import type { Cone, LineStrip, RendererObject } from "./index.ts";
+import { type Cone, type LineStrip, SceneObject } from "./index.ts";
 import { LineMaterial } from "three/addons/lines/LineMaterial.js";
 import { DIR, toVec3, vec3 } from "../vecUtils.ts";
+import { toTuple, type SerializedObject } from "../serialization.ts";
 
 type ArrowColor =
 	| THREE.ColorRepresentation
 	| { from: THREE.ColorRepresentation; to: THREE.ColorRepresentation };
 
-export class Arrow implements RendererObject<ArrowColor> {
+export class Arrow extends SceneObject<ArrowColor> {
+	readonly typeName = "Arrow";
+
 	/**
 	 * The Group mesh containing the line and cone of the arrow.
 	 */
@@ -19,13 +22,20 @@ export class Arrow implements RendererObject<ArrowColor> {
 	/** The cone part of the arrow. */
 	cone: Cone;
 
+	/** The distance from the start to the tip of the arrow. */
+	private readonly length: number;
+
+	/** The length of the arrowhead. */
+	private readonly headLength: number;
+
 	constructor(ctx: Ctx, from: Vec3, to: Vec3, headLength?: number) {
+		super(ctx);
 		const fromVec = toVec3(from);
 		const toVec = toVec3(to);
 		const dir = toVec.clone().sub(fromVec).normalize();
 		const length = fromVec.distanceTo(toVec);
 
-		const scale = 1 / ctx.zoom();
+		const scale = 1 / ctx.pixelsPerUnit();
 		const calculatedHeadLength =
 			headLength !== undefined ? headLength : 12 * scale;
 
@@ -34,6 +44,8 @@ export class Arrow implements RendererObject<ArrowColor> {
 			DIR.Y.multiplyScalar(length - calculatedHeadLength)
 		);
 		this.cone = ctx.cone(calculatedHeadLength * 0.5, calculatedHeadLength);
+		this.length = length;
+		this.headLength = calculatedHeadLength;
 
 		this.cone.mesh.geometry.translate(
 			0,
@@ -89,6 +101,26 @@ export class Arrow implements RendererObject<ArrowColor> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const { linewidth, dashed, color } = this.line.serialize();
+		const start = this.mesh.position;
+		const dir = DIR.Y.applyQuaternion(this.mesh.quaternion);
+		const end = start.clone().addScaledVector(dir, this.length);
+
+		return {
+			type: "arrow",
+			start: toTuple(start),
+			end: toTuple(end),
+			headLength: this.headLength,
+			linewidth,
+			...(dashed !== undefined ? { dashed } : {}),
+			...(color !== undefined
+				? { color: color as string | [string, string] }
+				: {}),
+			...this.serializeStyle(),
+		};
+	}
+
 	/**
 	 * Sets the line width of the arrow.
 	 * @param width The new line width.
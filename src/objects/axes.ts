@@ -0,0 +1,329 @@
+import { THREE, type Ctx, type Vec3 } from "../index.ts";
+import { LineMaterial } from "three/addons/lines/LineMaterial.js";
+import { LineSegments2 } from "three/addons/lines/LineSegments2.js";
+import { LineSegmentsGeometry } from "three/addons/lines/LineSegmentsGeometry.js";
+import { DIR, toVec3 } from "../vecUtils.ts";
+import {
+	type Cone,
+	getMaterials,
+	type LineStrip,
+	SceneObject,
+} from "./index.ts";
+import type { Text } from "./text.ts";
+
+type AxesConfig = {
+	/** Whether to draw the x and y axes only, or the z axis as well. Default is 2. */
+	dimensions?: 2 | 3;
+	/** The range [from, to] of the x axis. */
+	x?: [number, number];
+	/** The range [from, to] of the y axis. */
+	y?: [number, number];
+	/** The range [from, to] of the z axis. Only used in 3D. */
+	z?: [number, number];
+	/** Fixed distance between ticks. If not provided, a "nice" step is chosen based on the zoom level. */
+	step?: number;
+	/** Titles drawn at the positive end of each axis. Defaults to "x", "y" and "z". Use empty strings to hide them. */
+	titles?: string[];
+	/** Whether to draw arrowheads at the positive end of each axis. Default is true. */
+	arrows?: boolean;
+	/** Whether to draw numeric labels next to the ticks. Default is true. */
+	labels?: boolean;
+};
+
+/** Approximate distance between ticks in screen pixels when the step is chosen automatically. */
+const TARGET_TICK_SPACING = 80;
+
+/** Relative change of the zoom level after which ticks are re-laid out even if the step stays the same. */
+const LAYOUT_TOLERANCE = 0.01;
+
+/**
+ * Returns a "nice" step of 1, 2 or 5 times a power of ten that is at least the given value.
+ */
+const niceStep = (minStep: number) => {
+	const power = 10 ** Math.floor(Math.log10(minStep));
+	for (const factor of [1, 2, 5]) {
+		if (factor * power >= minStep) return factor * power;
+	}
+	return 10 * power;
+};
+
+export class Axes extends SceneObject<THREE.ColorRepresentation> {
+	readonly typeName = "Axes";
+
+	/**
+	 * The Group mesh containing all parts of the axes.
+	 */
+	mesh: THREE.Group;
+
+	/** The axis lines, in x, y, z order. */
+	lines: LineStrip[];
+
+	/** The arrowheads at the positive end of each axis, if enabled. */
+	arrowheads: Cone[];
+
+	/** The axis titles. */
+	titles: Text[];
+
+	/** The tick marks of all axes. Rebuilt whenever the ticks are re-laid out. */
+	ticks: LineSegments2 | null;
+
+	/** The numeric tick labels. Rebuilt whenever the ticks are re-laid out. */
+	tickLabels: Text[];
+
+	/** The ranges of each axis. */
+	private ranges: [number, number][];
+
+	/** The fixed tick step, if provided. */
+	private fixedStep: number | null;
+
+	/** Whether tick labels are drawn. */
+	private showLabels: boolean;
+
+	/** The current color of the axes, re-applied when ticks are rebuilt. */
+	private savedColor: THREE.Color;
+
+	/** The current line width of the axes. */
+	private savedLinewidth: number;
+
+	/** The zoom level the ticks were last laid out for. */
+	private layoutZoom: number;
+
+	/** The step between ticks that was last laid out. */
+	private layoutStep: number;
+
+	/**
+	 * The material created for the current tick marks, disposed when they are rebuilt. Materials set with
+	 * {@link material} belong to the caller and are not disposed.
+	 */
+	private tickMaterial: LineMaterial | null;
+
+	constructor(ctx: Ctx, config?: AxesConfig) {
+		super(ctx);
+		const {
+			dimensions = 2,
+			step,
+			titles = ["x", "y", "z"],
+			arrows = true,
+			labels = true,
+		} = config ?? {};
+
+		const zoom = ctx.pixelsPerUnit();
+		const defaultRange: [number, number] = [-200 / zoom, 200 / zoom];
+
+		this.ranges = [config?.x ?? defaultRange, config?.y ?? defaultRange];
+		if (dimensions === 3) this.ranges.push(config?.z ?? defaultRange);
+		this.fixedStep = step ?? null;
+		this.showLabels = labels;
+		this.savedColor = ctx.COLOR.FOREGROUND;
+		this.savedLinewidth = 2;
+		this.layoutZoom = zoom;
+		this.layoutStep = this.getStep(zoom);
+
+		this.mesh = new THREE.Group();
+		this.lines = [];
+		this.arrowheads = [];
+		this.titles = [];
+		this.ticks = null;
+		this.tickLabels = [];
+		this.tickMaterial = null;
+
+		const headLength = 12 / zoom;
+
+		this.ranges.forEach(([from, to], axis) => {
+			const dir = axisDir(axis);
+			const end = dir.clone().multiplyScalar(to);
+
+			const line = ctx.line(
+				dir.clone().multiplyScalar(from),
+				arrows ? dir.clone().multiplyScalar(to - headLength) : end,
+			);
+			this.mesh.add(line.mesh);
+			this.lines.push(line);
+
+			if (arrows) {
+				const cone = ctx.cone(headLength * 0.5, headLength);
+				cone.mesh.position.copy(
+					dir.clone().multiplyScalar(to - headLength * 0.5),
+				);
+				cone.mesh.quaternion.setFromUnitVectors(DIR.Y, dir);
+				this.mesh.add(cone.mesh);
+				this.arrowheads.push(cone);
+			}
+
+			const title = titles[axis];
+			if (title !== undefined && title !== "") {
+				const text = ctx.text(title).size(16 / zoom);
+				text.mesh.position.copy(
+					end.add(this.labelOffset(axis, 20 / zoom, -1)),
+				);
+				this.mesh.add(text.mesh);
+				this.titles.push(text);
+			}
+		});
+
+		this.layoutTicks();
+		this.faceCamera();
+
+		if (ctx.__getMode() === "RETAINED") {
+			ctx.update(() => {
+				if (this.needsLayout()) {
+					this.layoutTicks();
+				}
+				this.faceCamera();
+			});
+		}
+
+		ctx.spawn(this.mesh);
+	}
+
+	pos(position: Vec3): this {
+		this.mesh.position.copy(toVec3(position));
+		return this;
+	}
+
+	/**
+	 * Sets the color of the axes, including ticks, arrowheads and labels.
+	 * @param color The new color.
+	 */
+	color(color: THREE.ColorRepresentation): this {
+		this.savedColor = new THREE.Color(color);
+		this.lines.forEach((line) => line.color(color));
+		this.arrowheads.forEach((cone) => cone.color(color));
+		this.titles.forEach((text) => text.color(color));
+		this.tickLabels.forEach((text) => text.color(color));
+		this.ticks?.material.color.set(color);
+		return this;
+	}
+
+	/**
+	 * Sets the material of the axis lines and ticks.
+	 * @param material The LineMaterial to apply.
+	 */
+	material(material: LineMaterial): this {
+		this.lines.forEach((line) => line.material(material));
+		if (this.ticks !== null) this.ticks.material = material;
+		return this;
+	}
+
+	/**
+	 * Sets the line width of the axis lines and ticks.
+	 * @param width The new line width.
+	 */
+	linewidth(width: number): this {
+		this.savedLinewidth = width;
+		this.lines.forEach((line) => line.linewidth(width));
+		if (this.ticks !== null) this.ticks.material.linewidth = width;
+		return this;
+	}
+
+	/**
+	 * Removes the current ticks and labels and creates new ones for the current zoom level. Called automatically when
+	 * the zoom level changes.
+	 */
+	layoutTicks() {
+		const zoom = this.ctxRef.pixelsPerUnit();
+		const step = this.getStep(zoom);
+		this.layoutZoom = zoom;
+		this.layoutStep = step;
+
+		if (this.ticks !== null) {
+			this.mesh.remove(this.ticks);
+			this.ticks.geometry.dispose();
+		}
+		this.tickMaterial?.dispose();
+		for (const text of this.tickLabels) {
+			this.mesh.remove(text.mesh);
+			this.ctxRef.remove(text.mesh);
+			text.mesh.geometry.dispose();
+			for (const material of getMaterials(text.mesh)) {
+				material.dispose();
+			}
+		}
+		this.tickLabels = [];
+
+		const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+		const tickHalf = 4 / zoom;
+
+		const positions: number[] = [];
+		this.ranges.forEach(([from, to], axis) => {
+			const dir = axisDir(axis);
+			const normal = this.labelOffset(axis, tickHalf, 1);
+
+			// Ticks too close to the arrowhead or title are skipped.
+			const last = to - step * 0.5;
+			for (let i = Math.ceil(from / step); i * step <= last; i++) {
+				const value = i * step;
+				if (i === 0) continue;
+
+				const center = dir.clone().multiplyScalar(value);
+				const a = center.clone().sub(normal);
+				const b = center.clone().add(normal);
+				positions.push(a.x, a.y, a.z, b.x, b.y, b.z);
+
+				if (this.showLabels) {
+					const text = this.ctxRef
+						.text(value.toFixed(decimals))
+						.size(12 / zoom)
+						.color(this.savedColor);
+					text.mesh.position.copy(
+						center.add(this.labelOffset(axis, 16 / zoom, -1)),
+					);
+					this.mesh.add(text.mesh);
+					this.tickLabels.push(text);
+				}
+			}
+		});
+
+		const geometry = new LineSegmentsGeometry().setPositions(positions);
+		const material = new LineMaterial({
+			linewidth: this.savedLinewidth,
+			color: this.savedColor,
+		});
+		this.ticks = new LineSegments2(geometry, material);
+		this.tickMaterial = material;
+		this.mesh.add(this.ticks);
+
+		this.faceCamera();
+	}
+
+	/**
+	 * Returns the distance between ticks at the given zoom level.
+	 */
+	private getStep(zoom: number) {
+		return this.fixedStep ?? niceStep(TARGET_TICK_SPACING / zoom);
+	}
+
+	/**
+	 * Whether the step between ticks changed since they were laid out, or the zoom level changed enough for the size
+	 * of tick marks and labels to be visibly off. Small changes, like rounding errors while orbiting, are ignored.
+	 */
+	private needsLayout() {
+		const zoom = this.ctxRef.pixelsPerUnit();
+		return (
+			this.getStep(zoom) !== this.layoutStep ||
+			Math.abs(zoom / this.layoutZoom - 1) > LAYOUT_TOLERANCE
+		);
+	}
+
+	/**
+	 * Returns the offset perpendicular to the given axis used for tick marks and labels. Labels of the x and z axes are
+	 * placed below the axis, labels of the y axis to its left.
+	 */
+	private labelOffset(axis: number, distance: number, sign: number) {
+		const perpendicular = axis === 1 ? DIR.X : DIR.Y;
+		return perpendicular.multiplyScalar(distance * sign);
+	}
+
+	/**
+	 * Rotates all labels to face the camera.
+	 */
+	private faceCamera() {
+		const rotation = this.ctxRef.camera.quaternion;
+		for (const text of [...this.titles, ...this.tickLabels]) {
+			text.mesh.quaternion.copy(rotation);
+		}
+	}
+}
+
+/** Returns the unit direction of the axis with the given index. */
+const axisDir = (axis: number) => [DIR.X, DIR.Y, DIR.Z][axis]!;
@@ -1,5 +1,34 @@
 import { THREE, type Ctx, type Vec3 } from "../index.ts";
 import { toVec3 } from "../vecUtils.ts";
+import { addPickHandler, type PickHandler } from "../picking.ts";
+import type { EasingFn, EasingName } from "../easing.ts";
+import type { Tween } from "../tween.ts";
+import {
+	toHex,
+	toTuple,
+	type SerializedObject,
+	type SerializedStyle,
+} from "../serialization.ts";
+
+/** The values an object can be animated to with {@link SceneObject.animate}. */
+export type AnimationTarget = {
+	/** The position to move to. */
+	pos?: Vec3;
+	/** The color to fade to. */
+	color?: THREE.ColorRepresentation;
+	/** The scale to grow or shrink to, either uniform or per axis. */
+	scale?: number | Vec3;
+	/** The opacity to fade to, between 0 and 1. */
+	opacity?: number;
+};
+
+/**
+ * Resolves to unknown if a color type includes plain THREE.Color values, and to never otherwise. Used as the constraint
+ * of color types, so that every object can be animated to a plain color.
+ */
+export type AcceptsPlainColor<ColorType> = THREE.Color extends ColorType
+	? unknown
+	: never;
 
 export interface RendererObject<ColorType> {
 	/**
@@ -19,23 +48,254 @@ export interface RendererObject<ColorType> {
 	 * @param material A THREE.Material instance.
 	 */
 	material(material: THREE.Material): this;
+
+	/**
+	 * Registers a handler that is called when the object is clicked.
+	 * @param handler A function receiving information about the hit.
+	 */
+	onClick(handler: PickHandler): this;
+
+	/**
+	 * Registers a handler that is called when the pointer starts hovering over the object.
+	 * @param handler A function receiving information about the hit.
+	 */
+	onHover(handler: PickHandler): this;
+
+	/**
+	 * Registers a handler that is called when the pointer stops hovering over the object.
+	 * @param handler A function receiving information about the object that was left.
+	 */
+	onLeave(handler: PickHandler): this;
+
+	/**
+	 * Animates the object to the given values.
+	 * @param target The values to animate to.
+	 * @param duration The duration in seconds.
+	 * @param easing (Optional) An easing function or the name of a built-in one.
+	 */
+	animate(
+		target: AnimationTarget,
+		duration: number,
+		easing?: EasingFn | EasingName,
+	): Tween;
 }
 
-export abstract class BasicObject<Geometry extends THREE.BufferGeometry>
-	implements RendererObject<THREE.ColorRepresentation>
-{
-	/** The THREE.Mesh instance representing this object. */
-	mesh: THREE.Mesh<Geometry>;
+/**
+ * Returns the materials of an object and its descendants, without duplicates.
+ */
+export const getMaterials = (object: THREE.Object3D) => {
+	const materials = new Set<THREE.Material>();
+	object.traverse((child) => {
+		if (!("material" in child)) return;
+		const material = child.material as THREE.Material | THREE.Material[];
+		for (const m of Array.isArray(material) ? material : [material]) {
+			materials.add(m);
+		}
+	});
+	return [...materials];
+};
+
+/**
+ * Base class of all objects, implementing pointer event handlers and animations. The handlers are registered on the
+ * object's mesh and are also called when one of its children is hit, so composite objects react as a whole.
+ * ### Example
+ * ```js
+ * ctx.sphere(20)
+ *     .onClick(() => console.log("clicked"))
+ *     .onHover((e) => e.object.material.color.set("red"))
+ *     .onLeave((e) => e.object.material.color.set("black"));
+ * ```
+ */
+export abstract class SceneObject<
+	ColorType extends AcceptsPlainColor<ColorType>,
+> implements RendererObject<ColorType> {
+	/**
+	 * The name of the type of the object, like "Sphere". Unlike the name of its constructor, it stays the same when
+	 * the code is minified.
+	 */
+	abstract readonly typeName: string;
+
+	/** The root THREE.js object of this object, which pointer events are tested against. */
+	abstract mesh: THREE.Object3D;
 
 	/** Reference to the rendering context. */
 	protected ctxRef: Ctx;
 
+	constructor(ctx: Ctx) {
+		this.ctxRef = ctx;
+		ctx.__addObject(this);
+	}
+
+	abstract pos(position: Vec3): this;
+
+	abstract color(color: ColorType): this;
+
+	abstract material(material: THREE.Material): this;
+
+	onClick(handler: PickHandler): this {
+		addPickHandler(this.mesh, "click", handler);
+		return this;
+	}
+
+	onHover(handler: PickHandler): this {
+		addPickHandler(this.mesh, "hover", handler);
+		return this;
+	}
+
+	onLeave(handler: PickHandler): this {
+		addPickHandler(this.mesh, "leave", handler);
+		return this;
+	}
+
+	/**
+	 * Returns the construction parameters and style of the object, from which {@link Ctx.load} can rebuild it. Objects
+	 * defined by functions, like graphs and surfaces, can't be written as data and return null.
+	 */
+	serialize(): SerializedObject | null {
+		return null;
+	}
+
+	/**
+	 * Animates the position, color, scale or opacity of the object. The start values are read when the animation
+	 * starts, so animations can be chained and delayed.
+	 * ### Example
+	 * ```js
+	 * const sphere = ctx.sphere(10);
+	 * await sphere.animate({ pos: [100, 0, 0], color: "red" }, 1);
+	 * await sphere.animate({ scale: 2, opacity: 0.5 }, 0.5, "backOut");
+	 * ```
+	 * @param target The values to animate to. Values that are left out stay unchanged.
+	 * @param duration The duration in seconds.
+	 * @param easing (Optional) An easing function or the name of a built-in one. Default is "cubicInOut".
+	 * @returns The {@link Tween} running the animation, which can be awaited, delayed and cancelled.
+	 */
+	animate(
+		target: AnimationTarget,
+		duration: number,
+		easing?: EasingFn | EasingName,
+	): Tween {
+		let apply: ((t: number) => void) | null = null;
+		return this.ctxRef.tween(
+			duration,
+			(t) => {
+				apply ??= this.createAnimation(target);
+				apply(t);
+			},
+			easing,
+		);
+	}
+
+	/**
+	 * @internal Sets the color of the whole object to a plain color. Used by animations, which interpolate plain colors.
+	 */
+	__applyPlainColor(color: THREE.Color): this {
+		// The constraint of the color type guarantees that it includes plain colors.
+		return this.color(color as ColorType);
+	}
+
+	/**
+	 * Returns the position, rotation, scale and opacity of the object. Only values that differ from the defaults are
+	 * included.
+	 */
+	protected serializeStyle(): SerializedStyle {
+		const mesh = this.mesh;
+		const style: SerializedStyle = { pos: toTuple(mesh.position) };
+		if (!mesh.rotation.equals(new THREE.Euler())) {
+			style.rotation = [
+				mesh.rotation.x,
+				mesh.rotation.y,
+				mesh.rotation.z,
+			];
+		}
+		if (!mesh.scale.equals(new THREE.Vector3(1, 1, 1))) {
+			style.scale = toTuple(mesh.scale);
+		}
+		const material = getMaterials(mesh)[0];
+		if (
+			material !== undefined &&
+			material.transparent &&
+			material.opacity < 1
+		) {
+			style.opacity = material.opacity;
+		}
+		return style;
+	}
+
+	/**
+	 * Reads the current values of the object and returns a function that sets the values at the given progress
+	 * towards the target.
+	 */
+	private createAnimation(target: AnimationTarget) {
+		const mesh = this.mesh;
+		const materials = getMaterials(mesh);
+
+		const fromPos = mesh.position.clone();
+		const toPos =
+			target.pos !== undefined ? toVec3(target.pos).clone() : null;
+
+		const fromScale = mesh.scale.clone();
+		const toScale =
+			target.scale === undefined
+				? null
+				: typeof target.scale === "number"
+					? new THREE.Vector3().setScalar(target.scale)
+					: toVec3(target.scale).clone();
+
+		// Vertex colored materials are white, so the first uniformly colored material is used as the start color.
+		const colored = materials.find(
+			(m) =>
+				!m.vertexColors &&
+				"color" in m &&
+				m.color instanceof THREE.Color,
+		) as (THREE.Material & { color: THREE.Color }) | undefined;
+		const fromColor =
+			colored?.color.clone() ?? this.ctxRef.COLOR.FOREGROUND;
+		const toColor =
+			target.color !== undefined ? new THREE.Color(target.color) : null;
+
+		const fromOpacity = new Map(
+			materials.map((m) => [m, m.opacity] as const),
+		);
+
+		const position = new THREE.Vector3();
+		return (t: number) => {
+			if (toPos !== null) {
+				this.pos(position.lerpVectors(fromPos, toPos, t));
+			}
+			if (toScale !== null) {
+				mesh.scale.lerpVectors(fromScale, toScale, t);
+			}
+			if (toColor !== null) {
+				this.__applyPlainColor(
+					new THREE.Color().lerpColors(fromColor, toColor, t),
+				);
+			}
+			if (target.opacity !== undefined) {
+				for (const [material, from] of fromOpacity) {
+					material.transparent = true;
+					material.opacity = THREE.MathUtils.clamp(
+						THREE.MathUtils.lerp(from, target.opacity, t),
+						0,
+						1,
+					);
+				}
+			}
+		};
+	}
+}
+
+export abstract class BasicObject<
+	Geometry extends THREE.BufferGeometry,
+> extends SceneObject<THREE.ColorRepresentation> {
+	/** The THREE.Mesh instance representing this object. */
+	mesh: THREE.Mesh<Geometry>;
+
 	constructor(ctx: Ctx, geometry: Geometry) {
+		super(ctx);
 		const material = new THREE.MeshBasicMaterial({
 			color: ctx.COLOR.FOREGROUND,
 		});
 		this.mesh = new THREE.Mesh(geometry, material);
-		this.ctxRef = ctx;
 	}
 
 	pos(position: Vec3): this {
@@ -65,6 +325,20 @@ export abstract class BasicObject<Geometry extends THREE.BufferGeometry>
 		return this;
 	}
 
+	/**
+	 * Adds the color of the material to the style, and whether it is shaded.
+	 */
+	protected serializeStyle(): SerializedStyle & { color?: string } {
+		const style: SerializedStyle & { color?: string } =
+			super.serializeStyle();
+		const color = this.getMaterialColor();
+		if (color !== null) style.color = toHex(color);
+		if (this.mesh.material instanceof THREE.MeshStandardMaterial) {
+			style.shaded = true;
+		}
+		return style;
+	}
+
 	/**
 	 * Returns the color used in the material of the object, if one exists.
 	 */
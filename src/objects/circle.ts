@@ -1,10 +1,13 @@
 import { Ctx, THREE } from "../index.ts";
 import { BasicObject } from "./index.ts";
+import type { SerializedObject } from "../serialization.ts";
 
 /**
  * Class representing a 3D circle object.
  */
 export class Circle extends BasicObject<THREE.CircleGeometry> {
+	readonly typeName = "Circle";
+
 	constructor(ctx: Ctx, radius: number) {
 		const geometry = new THREE.CircleGeometry(radius);
 		super(ctx, geometry);
@@ -31,6 +34,16 @@ export class Circle extends BasicObject<THREE.CircleGeometry> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const params = this.mesh.geometry.parameters;
+		return {
+			type: "circle",
+			radius: params.radius,
+			segments: params.segments,
+			...this.serializeStyle(),
+		};
+	}
+
 	private reconstructGeometry(config: {
 		radius?: number;
 		segments?: number;
@@ -0,0 +1,416 @@
+import { THREE, type Ctx, type Vec2, type Vec3 } from "../index.ts";
+import { LineMaterial } from "three/addons/lines/LineMaterial.js";
+import { Complex, toComplex, type ComplexLike } from "../complex.ts";
+import { toVec2, toVec3 } from "../vecUtils.ts";
+import {
+	getMaterials,
+	type HeightField,
+	type ImplicitCurve,
+	SceneObject,
+} from "./index.ts";
+
+export type ComplexFn = (z: Complex) => ComplexLike;
+
+type DomainColoringConfig = {
+	/**
+	 * The [width, height] of the texture in texels, rounded up and limited to 2 to 1024. Defaults to the on-screen size
+	 * of the region.
+	 */
+	resolution?: Vec2;
+	/** Whether the brightness steps at every power of two of the modulus. Default is true. */
+	shading?: boolean;
+};
+
+type ComplexGraph3dColor =
+	| THREE.ColorRepresentation
+	| ((z: Complex, w: Complex) => THREE.ColorRepresentation);
+
+type ComplexGraph3dConfig = {
+	/** The number of [real, imaginary] segments of the surface. Defaults to one every 10 screen pixels. */
+	segments?: Vec2;
+	/** Factor the modulus is multiplied by to get the height. Default is 1. */
+	scale?: number;
+	/** Heights are clipped to this value, e.g. near poles. Defaults to 200 screen pixels at the current zoom. */
+	maxHeight?: number;
+	/** Whether the brightness steps at every power of two of the modulus. Default is true. */
+	shading?: boolean;
+};
+
+/**
+ * Sets the target to the domain coloring of a complex value. The hue is the argument of the value, starting with red
+ * at 0. With shading, the brightness increases from dark to light between consecutive powers of two of the modulus.
+ * Zeros are black, and poles and undefined values are white.
+ */
+const domainColor = (w: Complex, shading: boolean, target: THREE.Color) => {
+	const modulus = w.abs();
+	if (isNaN(modulus) || !isFinite(modulus)) return target.setRGB(1, 1, 1);
+	if (modulus === 0) return target.setRGB(0, 0, 0);
+
+	const hue = (w.arg() / (Math.PI * 2) + 1) % 1;
+	const log = Math.log2(modulus);
+	const lightness = shading ? 0.3 + 0.3 * (log - Math.floor(log)) : 0.5;
+	return target.setHSL(hue, 1, lightness, THREE.SRGBColorSpace);
+};
+
+/** Returns the [min, max] corners of a region, defaulting to a square around the origin. */
+const getRegion = (ctx: Ctx, region?: [Vec2, Vec2]) => {
+	const defaultExtentHalf = 200 / ctx.pixelsPerUnit();
+	const min = toVec2(region?.[0] ?? -defaultExtentHalf).clone();
+	const max = toVec2(region?.[1] ?? defaultExtentHalf).clone();
+
+	if (min.x >= max.x || min.y >= max.y) {
+		throw new Error("Invalid region: 'min' must be less than 'max'.");
+	}
+	return [min, max] as const;
+};
+
+export class DomainColoring extends SceneObject<THREE.ColorRepresentation> {
+	readonly typeName = "DomainColoring";
+
+	/**
+	 * The Group mesh containing the plane and any contour lines.
+	 */
+	mesh: THREE.Group;
+
+	/** The plane textured with the domain coloring image. */
+	plane: THREE.Mesh<THREE.PlaneGeometry, THREE.Material>;
+
+	/** The texture containing the domain coloring image. */
+	texture: THREE.DataTexture;
+
+	/** The modulus contour lines, if added. */
+	contourLines: ImplicitCurve | null;
+
+	/** The complex function. */
+	private func: ComplexFn;
+
+	/** Lower corner of the region. */
+	private min: THREE.Vector2;
+
+	/** Upper corner of the region. */
+	private max: THREE.Vector2;
+
+	/** The smallest and largest finite, non-zero modulus found while sampling. */
+	private modulusRange: [number, number];
+
+	/** The color of the contour lines. */
+	private savedColor: THREE.Color;
+
+	/** The material set with {@link contourMaterial}, which belongs to the caller and is not disposed. */
+	private customContourMaterial: LineMaterial | null;
+
+	constructor(
+		ctx: Ctx,
+		func: ComplexFn,
+		region?: [Vec2, Vec2],
+		config?: DomainColoringConfig,
+	) {
+		super(ctx);
+		const [min, max] = getRegion(ctx, region);
+		const size = max.clone().sub(min);
+		const { shading = true } = config ?? {};
+
+		const defaultResolution = size
+			.clone()
+			.multiplyScalar(ctx.pixelsPerUnit())
+			.ceil()
+			.clampScalar(2, 1024);
+		const { x: width, y: height } =
+			config?.resolution !== undefined
+				? toVec2(config.resolution).clone().ceil().clampScalar(2, 1024)
+				: defaultResolution;
+
+		this.func = func;
+		this.min = min;
+		this.max = max;
+		this.savedColor = ctx.COLOR.FOREGROUND;
+		this.contourLines = null;
+		this.customContourMaterial = null;
+
+		// Texels are sampled at their centers. Row 0 of a data texture is at the bottom of the plane.
+		const data = new Uint8Array(width * height * 4);
+		const c = new THREE.Color();
+		const rgb = { r: 0, g: 0, b: 0 };
+		let minModulus = Number.POSITIVE_INFINITY;
+		let maxModulus = 0;
+		for (let j = 0; j < height; j++) {
+			const im = min.y + ((j + 0.5) / height) * size.y;
+			for (let i = 0; i < width; i++) {
+				const re = min.x + ((i + 0.5) / width) * size.x;
+				const w = toComplex(func(new Complex(re, im)));
+
+				const modulus = w.abs();
+				if (modulus > 0 && isFinite(modulus)) {
+					minModulus = Math.min(minModulus, modulus);
+					maxModulus = Math.max(maxModulus, modulus);
+				}
+
+				domainColor(w, shading, c).getRGB(rgb, THREE.SRGBColorSpace);
+				const index = (j * width + i) * 4;
+				data[index] = Math.round(rgb.r * 255);
+				data[index + 1] = Math.round(rgb.g * 255);
+				data[index + 2] = Math.round(rgb.b * 255);
+				data[index + 3] = 255;
+			}
+		}
+		this.modulusRange = [minModulus, maxModulus];
+
+		this.texture = new THREE.DataTexture(data, width, height);
+		this.texture.colorSpace = THREE.SRGBColorSpace;
+		this.texture.magFilter = THREE.LinearFilter;
+		this.texture.minFilter = THREE.LinearFilter;
+		this.texture.needsUpdate = true;
+
+		this.plane = new THREE.Mesh(
+			new THREE.PlaneGeometry(size.x, size.y),
+			new THREE.MeshBasicMaterial({
+				map: this.texture,
+				side: THREE.DoubleSide,
+			}),
+		);
+		this.plane.position.set(
+			(min.x + max.x) * 0.5,
+			(min.y + max.y) * 0.5,
+			0,
+		);
+
+		this.mesh = new THREE.Group();
+		this.mesh.add(this.plane);
+		ctx.spawn(this.mesh);
+	}
+
+	pos(position: Vec3): this {
+		this.mesh.position.copy(toVec3(position));
+		return this;
+	}
+
+	/**
+	 * Sets the color of the modulus contour lines.
+	 * @param color The new color.
+	 */
+	color(color: THREE.ColorRepresentation): this {
+		this.savedColor = new THREE.Color(color);
+		this.contourLines?.color(color);
+		return this;
+	}
+
+	/**
+	 * Sets the material of the plane.
+	 * @param material A THREE.Material instance. Assign {@link texture} as its map to keep the domain coloring.
+	 */
+	material(material: THREE.Material): this {
+		this.plane.material = material;
+		return this;
+	}
+
+	/**
+	 * Draws contour lines where the modulus of the function is constant. Replaces previously drawn contour lines.
+	 * @param levels (Optional) The moduli to draw contour lines at. Defaults to every power of two within the range of
+	 * the function.
+	 */
+	contours(levels?: number[]): this {
+		if (this.contourLines !== null) {
+			this.removeContourLines(this.contourLines);
+		}
+
+		let moduli = levels;
+		if (moduli === undefined) {
+			const [minModulus, maxModulus] = this.modulusRange;
+			moduli = [];
+			if (minModulus <= maxModulus) {
+				// The range is limited so that poles and zeros don't result in an excessive number of contours.
+				const from = Math.max(Math.ceil(Math.log2(minModulus)), -16);
+				const to = Math.min(Math.floor(Math.log2(maxModulus)), 16);
+				for (let k = from; k <= to; k++) moduli.push(2 ** k);
+			}
+		}
+
+		// The logarithm of the modulus changes far more evenly than the modulus itself, especially near poles, which
+		// gives more accurate contours.
+		this.contourLines = this.ctxRef.implicit(
+			(x, y) => Math.log2(toComplex(this.func(new Complex(x, y))).abs()),
+			[this.min.x, this.max.x],
+			[this.min.y, this.max.y],
+			{ levels: moduli.map((m) => Math.log2(m)) },
+		);
+		this.contourLines.color(this.savedColor);
+		// Lift the lines slightly off the plane to avoid z-fighting.
+		this.contourLines.mesh.position.z = 0.1 / this.ctxRef.pixelsPerUnit();
+		this.mesh.add(this.contourLines.mesh);
+		return this;
+	}
+
+	/**
+	 * Sets the line width of the contour lines.
+	 * @param width The new line width.
+	 */
+	linewidth(width: number): this {
+		this.contourLines?.linewidth(width);
+		return this;
+	}
+
+	/**
+	 * Sets the contour lines to be dashed. If no parameters are provided, default values are used.
+	 * @param dashSize Size of the dashes.
+	 * @param gapSize Size of the gaps between dashes.
+	 */
+	dashed(dashSize?: number, gapSize?: number): this {
+		this.contourLines?.dashed(dashSize, gapSize);
+		return this;
+	}
+
+	/**
+	 * Sets the material of the contour lines.
+	 * @param material The LineMaterial to apply to the contour lines.
+	 */
+	contourMaterial(material: LineMaterial): this {
+		this.customContourMaterial = material;
+		this.contourLines?.material(material);
+		return this;
+	}
+
+	/**
+	 * Removes contour lines that are replaced, and releases their geometries and materials.
+	 */
+	private removeContourLines(lines: ImplicitCurve) {
+		this.mesh.remove(lines.mesh);
+		this.ctxRef.remove(lines.mesh);
+		lines.mesh.traverse((child) => {
+			if ("geometry" in child) {
+				(child.geometry as THREE.BufferGeometry).dispose();
+			}
+		});
+		for (const material of getMaterials(lines.mesh)) {
+			if (material !== this.customContourMaterial) material.dispose();
+		}
+	}
+}
+
+export class ComplexGraph3d extends SceneObject<ComplexGraph3dColor> {
+	readonly typeName = "ComplexGraph3d";
+
+	/**
+	 * The Group mesh containing the surface.
+	 */
+	mesh: THREE.Group;
+
+	/**
+	 * The HeightField object representing the surface.
+	 */
+	heightField: HeightField;
+
+	/**
+	 * The inputs z of the function at each vertex. The real part runs along the x axis and the imaginary part along the
+	 * z axis.
+	 */
+	inputs: Complex[];
+
+	/**
+	 * The values w = f(z) of the function at each vertex.
+	 */
+	values: Complex[];
+
+	/** Whether the domain coloring uses modulus shading. */
+	private shading: boolean;
+
+	constructor(
+		ctx: Ctx,
+		func: ComplexFn,
+		region?: [Vec2, Vec2],
+		config?: ComplexGraph3dConfig,
+	) {
+		super(ctx);
+		const [min, max] = getRegion(ctx, region);
+		const size = max.clone().sub(min);
+		const {
+			scale = 1,
+			maxHeight = 200 / ctx.pixelsPerUnit(),
+			shading = true,
+		} = config ?? {};
+
+		const defaultSegments = size
+			.clone()
+			.multiplyScalar(ctx.pixelsPerUnit() * 0.1)
+			.round()
+			.clampScalar(1, 512);
+		const { x: reSeg, y: imSeg } = toVec2(
+			config?.segments ?? defaultSegments,
+		);
+
+		this.shading = shading;
+		this.inputs = [];
+		this.values = [];
+
+		const heights: number[] = [];
+		for (let j = 0; j <= imSeg; j++) {
+			const im = min.y + (j / imSeg) * size.y;
+			for (let i = 0; i <= reSeg; i++) {
+				const re = min.x + (i / reSeg) * size.x;
+				const z = new Complex(re, im);
+				const w = toComplex(func(z));
+				this.inputs.push(z);
+				this.values.push(w);
+
+				// Poles and undefined values are drawn at the maximum height.
+				const height = w.abs() * scale;
+				heights.push(
+					isNaN(height) ? maxHeight : Math.min(height, maxHeight),
+				);
+			}
+		}
+
+		this.heightField = ctx.heightField(
+			[size.x, size.y],
+			[reSeg, imSeg],
+			heights,
+		);
+		this.heightField.mesh.position.set(
+			(min.x + max.x) * 0.5,
+			0,
+			(min.y + max.y) * 0.5,
+		);
+
+		this.mesh = new THREE.Group();
+		this.mesh.add(this.heightField.mesh);
+		ctx.spawn(this.mesh);
+
+		this.domainColoring();
+	}
+
+	pos(position: Vec3): this {
+		this.mesh.position.copy(toVec3(position));
+		return this;
+	}
+
+	/**
+	 * Sets the color of the surface, replacing the domain coloring.
+	 * @param color A color or a function that returns a color based on the input z and the value w = f(z).
+	 */
+	color(color: ComplexGraph3dColor): this {
+		if (typeof color === "function") {
+			this.heightField.color(
+				this.inputs.map((z, i) => color(z, this.values[i]!)),
+			);
+		} else {
+			this.heightField.color(color);
+		}
+		return this;
+	}
+
+	/**
+	 * Colors the surface by the argument of the function, as in {@link DomainColoring}. This is the default coloring.
+	 */
+	domainColoring(): this {
+		this.heightField.color(
+			this.values.map((w) =>
+				domainColor(w, this.shading, new THREE.Color()),
+			),
+		);
+		return this;
+	}
+
+	material(material: THREE.Material): this {
+		this.heightField.material(material);
+		return this;
+	}
+}
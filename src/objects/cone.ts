@@ -1,10 +1,13 @@
 import { Ctx, THREE } from "../index.ts";
 import { BasicObject } from "./index.ts";
+import type { SerializedObject } from "../serialization.ts";
 
 /**
  * Class representing a 3D cone object.
  */
 export class Cone extends BasicObject<THREE.ConeGeometry> {
+	readonly typeName = "Cone";
+
 	constructor(ctx: Ctx, radius: number, height: number) {
 		const geometry = new THREE.ConeGeometry(radius, height);
 		super(ctx, geometry);
@@ -41,6 +44,17 @@ export class Cone extends BasicObject<THREE.ConeGeometry> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const params = this.mesh.geometry.parameters;
+		return {
+			type: "cone",
+			radius: params.radius,
+			height: params.height,
+			radialSegments: params.radialSegments,
+			...this.serializeStyle(),
+		};
+	}
+
 	private reconstructGeometry(config: {
 		radius?: number;
 		height?: number;
@@ -1,7 +1,10 @@
 import { Ctx, THREE } from "../index.ts";
 import { BasicObject } from "./index.ts";
+import type { SerializedObject } from "../serialization.ts";
 
 export class Cuboid extends BasicObject<THREE.BoxGeometry> {
+	readonly typeName = "Cuboid";
+
 	constructor(ctx: Ctx, width: number, height: number, depth: number) {
 		const geometry = new THREE.BoxGeometry(width, height, depth);
 		super(ctx, geometry);
@@ -36,6 +39,17 @@ export class Cuboid extends BasicObject<THREE.BoxGeometry> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const params = this.mesh.geometry.parameters;
+		return {
+			type: "cuboid",
+			width: params.width,
+			height: params.height,
+			depth: params.depth,
+			...this.serializeStyle(),
+		};
+	}
+
 	private reconstructGeometry(config: {
 		width?: number;
 		height?: number;
@@ -1,7 +1,10 @@
 import { THREE, type Ctx } from "../index.ts";
 import { BasicObject } from "./index.ts";
+import type { SerializedObject } from "../serialization.ts";
 
 export class Cylinder extends BasicObject<THREE.CylinderGeometry> {
+	readonly typeName = "Cylinder";
+
 	constructor(
 		ctx: Ctx,
 		radiusTop: number,
@@ -54,6 +57,18 @@ export class Cylinder extends BasicObject<THREE.CylinderGeometry> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const params = this.mesh.geometry.parameters;
+		return {
+			type: "cylinder",
+			radiusTop: params.radiusTop,
+			radiusBottom: params.radiusBottom,
+			height: params.height,
+			radialSegments: params.radialSegments,
+			...this.serializeStyle(),
+		};
+	}
+
 	private reconstructGeometry(config: {
 		radiusTop?: number;
 		radiusBottom?: number;
@@ -0,0 +1,195 @@
+import { THREE, type Ctx, type Vec3 } from "../index.ts";
+import { toVec3 } from "../vecUtils.ts";
+import { SceneObject, type Points } from "./index.ts";
+import { rk4Step } from "./streamlines.ts";
+import type { VectorFieldFn } from "./vectorfield.ts";
+
+type FlowConfig = {
+	/** The [min, max] corners of the region particles are spawned in and kept inside of. */
+	bounds?: [Vec3, Vec3];
+	/** Number of particles. Default is 500. */
+	count?: number;
+	/** How long a particle lives in seconds before it respawns at a random position. Must be positive. Default is 4. */
+	lifetime?: number;
+	/** Multiplier for the field velocity. Default is 1. */
+	speed?: number;
+};
+
+export class FlowParticles extends SceneObject<THREE.ColorRepresentation> {
+	readonly typeName = "FlowParticles";
+
+	/**
+	 * The point cloud representing the particles.
+	 */
+	points: Points;
+
+	/** The THREE.Points mesh of the point cloud. */
+	get mesh() {
+		return this.points.mesh;
+	}
+
+	/** The current positions of the particles. */
+	positions: THREE.Vector3[];
+
+	/** The function describing the field. */
+	private func: VectorFieldFn;
+
+	/** Lower corner of the region particles live in. */
+	private min: THREE.Vector3;
+
+	/** Upper corner of the region particles live in. */
+	private max: THREE.Vector3;
+
+	/** The age of each particle in seconds. */
+	private ages: number[];
+
+	/** How long a particle lives in seconds. */
+	private lifetime: number;
+
+	/** Multiplier for the field velocity. */
+	private speed: number;
+
+	/** Whether the particles are paused. */
+	private paused: boolean;
+
+	constructor(ctx: Ctx, func: VectorFieldFn, config?: FlowConfig) {
+		super(ctx);
+		const defaultExtentHalf = 100 / ctx.pixelsPerUnit();
+		const { bounds, count = 500, lifetime = 4, speed = 1 } = config ?? {};
+
+		if (!(lifetime > 0)) {
+			throw new Error("Invalid lifetime: must be greater than 0.");
+		}
+
+		this.func = func;
+		this.min = toVec3(bounds?.[0] ?? -defaultExtentHalf).clone();
+		this.max = toVec3(bounds?.[1] ?? defaultExtentHalf).clone();
+		this.lifetime = lifetime;
+		this.speed = speed;
+		this.paused = false;
+
+		// Particles start with random ages, so that they don't all respawn at the same time.
+		this.positions = [];
+		this.ages = [];
+		for (let i = 0; i < count; i++) {
+			this.positions.push(this.randomPosition());
+			this.ages.push(Math.random() * lifetime);
+		}
+
+		this.points = ctx.points(this.positions).pointSize(3);
+		this.fade();
+
+		if (ctx.__getMode() === "RETAINED") {
+			ctx.update((dt, elapsed) => this.step(dt, elapsed));
+		}
+	}
+
+	pos(position: Vec3): this {
+		this.points.pos(position);
+		return this;
+	}
+
+	/**
+	 * Sets the color of all particles.
+	 * @param color The color of the particles.
+	 */
+	color(color: THREE.ColorRepresentation): this {
+		this.points.color(color);
+		this.fade();
+		return this;
+	}
+
+	/**
+	 * Sets the material of all particles.
+	 * @param material The material of the particles.
+	 */
+	material(material: THREE.Material): this {
+		this.points.material(material);
+		return this;
+	}
+
+	/**
+	 * Sets the size of the particles.
+	 * @param size The new size for the particles.
+	 */
+	pointSize(size: number): this {
+		this.points.pointSize(size);
+		return this;
+	}
+
+	/**
+	 * Pauses or resumes the particle animation.
+	 * @param paused Whether the particles should be paused.
+	 */
+	pause(paused: boolean): this {
+		this.paused = paused;
+		return this;
+	}
+
+	/**
+	 * Advances all particles through the field. This is called automatically on every frame for particles created
+	 * outside of update functions. Inside an update function, call it manually with the delta and elapsed time.
+	 * @param dt The time step in seconds.
+	 * @param elapsed The current time in seconds, passed on to the field function.
+	 */
+	step(dt: number, elapsed: number): this {
+		if (this.paused || dt === 0) return this;
+
+		for (let i = 0; i < this.positions.length; i++) {
+			const age = this.ages[i]! + dt;
+			const next = rk4Step(
+				this.func,
+				this.positions[i]!,
+				elapsed,
+				dt * this.speed,
+				false,
+			);
+
+			if (next === null || age > this.lifetime || !this.contains(next)) {
+				this.positions[i] = this.randomPosition();
+				this.ages[i] = 0;
+			} else {
+				this.positions[i] = next;
+				this.ages[i] = age;
+			}
+
+			this.points.setPosition(i, this.positions[i]!);
+		}
+
+		this.fade();
+		return this;
+	}
+
+	/**
+	 * Fades particles in after spawning and out before respawning.
+	 */
+	private fade() {
+		const fadeTime = this.lifetime * 0.2;
+		for (let i = 0; i < this.positions.length; i++) {
+			const age = this.ages[i]!;
+			const alpha =
+				Math.min(age, this.lifetime - age, fadeTime) / fadeTime;
+			this.points.setAlpha(i, THREE.MathUtils.clamp(alpha, 0, 1));
+		}
+	}
+
+	/** Returns whether the given position lies within the bounds. Flat axes of 2D bounds are ignored. */
+	private contains(p: THREE.Vector3) {
+		const inside = (value: number, min: number, max: number) =>
+			min === max || (value >= min && value <= max);
+		return (
+			inside(p.x, this.min.x, this.max.x) &&
+			inside(p.y, this.min.y, this.max.y) &&
+			inside(p.z, this.min.z, this.max.z)
+		);
+	}
+
+	/** Returns a random position within the bounds. */
+	private randomPosition() {
+		return new THREE.Vector3(
+			THREE.MathUtils.lerp(this.min.x, this.max.x, Math.random()),
+			THREE.MathUtils.lerp(this.min.y, this.max.y, Math.random()),
+			THREE.MathUtils.lerp(this.min.z, this.max.z, Math.random()),
+		);
+	}
+}
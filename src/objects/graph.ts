@@ -1,28 +1,59 @@
-import { vec2, type Ctx, type THREE, type Vec3 } from "../index.ts";
+import { vec2, THREE, type Ctx, type Vec3 } from "../index.ts";
 import { LineMaterial } from "three/addons/lines/LineMaterial.js";
-import type { LineStrip, RendererObject } from "./index.ts";
+import { toVec3 } from "../vecUtils.ts";
+import { type LineStrip, SceneObject } from "./index.ts";
 
 type GraphColor =
 	| THREE.ColorRepresentation
 	| ((x: number, y: number) => THREE.ColorRepresentation);
 
-export class Graph implements RendererObject<GraphColor> {
+export class Graph extends SceneObject<GraphColor> {
+	readonly typeName = "Graph";
+
+	/**
+	 * The Group mesh containing the line strips of the graph and its asymptotes.
+	 */
+	mesh: THREE.Group;
+
+	/**
+	 * The underlying LineStrip meshes representing the graph. The graph is split into multiple line strips wherever
+	 * the function is undefined or has a discontinuity.
+	 */
+	linestrips: LineStrip[];
+
+	/**
+	 * Dashed line strips marking the vertical asymptotes of the graph, if they were added with {@link asymptotes}.
+	 */
+	asymptoteLines: LineStrip[];
+
+	/**
+	 * The computed (x, y) values of the graph, split into continuous segments. Each segment corresponds to the line
+	 * strip at the same index in `linestrips`.
+	 */
+	segments: THREE.Vector2[][];
+
 	/**
-	 * The underlying LineStrip mesh representing the graph.
+	 * The x positions of the detected discontinuities, where the function jumps between two samples or escapes to
+	 * infinity next to an undefined region.
 	 */
-	linestrip: LineStrip;
+	discontinuities: number[];
+
+	/** The function being graphed. */
+	private func: (x: number) => number;
 
 	/**
-	 * The computed (x, y) values of the graph.
+	 * Absolute y value beyond which points are considered off-screen. Refinement around a break stops once the graph
+	 * leaves this range.
 	 */
-	values: THREE.Vector2[];
+	private clip: number;
 
 	constructor(
 		ctx: Ctx,
 		func: (x: number) => number,
 		range?: [number, number],
 	) {
-		const defaultExtentHalf = 5000 / ctx.zoom();
+		super(ctx);
+		const defaultExtentHalf = 5000 / ctx.pixelsPerUnit();
 		const from = range !== undefined ? range[0] : -defaultExtentHalf;
 		const to = range !== undefined ? range[1] : defaultExtentHalf;
 
@@ -30,71 +61,256 @@ export class Graph implements RendererObject<GraphColor> {
 			throw new Error("Invalid range: 'from' must be less than 'to'.");
 		}
 
-		// At zoom 1, we want approximately one point every 2 screen pixels.
-		const resolution = 0.5 * ctx.zoom();
-		const pointCount = Math.round((to - from) * resolution);
-		this.values = new Array(pointCount);
+		this.func = func;
+		this.clip = defaultExtentHalf;
+		this.segments = [];
+		this.discontinuities = [];
+		this.linestrips = [];
+		this.asymptoteLines = [];
+
+		// At one pixel per unit, we want approximately one point every 2 screen pixels.
+		const resolution = 0.5 * ctx.pixelsPerUnit();
+		const pointCount = Math.max(Math.round((to - from) * resolution), 1);
+
+		// Jumps between two samples larger than ~100 screen pixels are inspected more closely. If the jump does not
+		// shrink when the interval is bisected, it is a discontinuity.
+		const jumpThreshold = 100 / ctx.pixelsPerUnit();
+		const gapThreshold = 1 / ctx.pixelsPerUnit();
+
+		let current: THREE.Vector2[] = [];
+		let prev: THREE.Vector2 | null = null;
+		let prevX = from;
+
+		const closeSegment = () => {
+			if (current.length > 1) this.segments.push(current);
+			current = [];
+		};
+
+		// Both sides of an undefined point like x=0 for 1/x report the same asymptote, so nearby duplicates are skipped.
+		const step = (to - from) / pointCount;
+		const addDiscontinuity = (x: number) => {
+			const last = this.discontinuities.at(-1);
+			if (last === undefined || Math.abs(x - last) > step * 2) {
+				this.discontinuities.push(x);
+			}
+		};
 
 		for (let i = 0; i <= pointCount; i++) {
 			const x = from + (i / pointCount) * (to - from);
 			const y = func(x);
 
-			if (isNaN(y) || !isFinite(y)) {
-				throw new Error(
-					`Graph function returned invalid value at x=${x}: ${y}`,
+			if (!isValid(y)) {
+				if (prev !== null) {
+					const { left, breakX } = this.refineBreak(prev.x, x);
+					current.push(...left);
+					closeSegment();
+					if (this.isOffScreen(left.at(-1))) addDiscontinuity(breakX);
+				}
+				prev = null;
+				prevX = x;
+				continue;
+			}
+
+			const point = vec2(x, y);
+
+			if (prev === null) {
+				if (i > 0) {
+					const { right, breakX } = this.refineBreak(prevX, x);
+					current.push(...right);
+					if (this.isOffScreen(right[0])) addDiscontinuity(breakX);
+				}
+			} else if (Math.abs(y - prev.y) > jumpThreshold) {
+				const { left, right, gap, breakX } = this.refineBreak(
+					prev.x,
+					x,
 				);
+				if (gap > gapThreshold) {
+					current.push(...left);
+					closeSegment();
+					current.push(...right);
+					addDiscontinuity(breakX);
+				}
 			}
 
-			this.values[i] = vec2(x, y);
+			current.push(point);
+			prev = point;
+			prevX = x;
+		}
+
+		closeSegment();
+
+		this.mesh = new THREE.Group();
+		for (const segment of this.segments) {
+			const line = ctx.lineStrip(segment);
+			this.mesh.add(line.mesh);
+			this.linestrips.push(line);
 		}
+		ctx.spawn(this.mesh);
+	}
 
-		this.linestrip = ctx.lineStrip(this.values);
+	/**
+	 * The line strip of the first continuous segment of the graph, which is the whole graph if it has no breaks.
+	 * @deprecated Graphs are split into several line strips at breaks. Use {@link linestrips} instead.
+	 */
+	get linestrip(): LineStrip {
+		const first = this.linestrips[0];
+		if (first === undefined) {
+			throw new Error(
+				"The graph has no line strips, as the function is undefined in the whole range.",
+			);
+		}
+		return first;
+	}
+
+	/**
+	 * All computed (x, y) values of the graph, across all segments.
+	 */
+	get values(): THREE.Vector2[] {
+		return this.segments.flat();
 	}
 
 	pos(position: Vec3): this {
-		this.linestrip.pos(position);
+		this.mesh.position.copy(toVec3(position));
 		return this;
 	}
 
 	/**
-	 * Sets the color of the graph's line strip.
+	 * Sets the color of the graph's line strips.
 	 * @param color A color or a function that returns a color based on x and y values, where y is the calculated graph value at x.
 	 */
 	color(color: GraphColor): this {
-		const colorInput =
-			typeof color === "function"
-				? this.values.map(({ x, y }) => color(x, y))
-				: color;
-
-		this.linestrip.color(colorInput);
+		this.linestrips.forEach((line, i) => {
+			const colorInput =
+				typeof color === "function"
+					? this.segments[i]!.map(({ x, y }) => color(x, y))
+					: color;
+			line.color(colorInput);
+		});
 		return this;
 	}
 
 	/**
-	 * Sets the material of the graph's line strip.
-	 * @param material The LineMaterial to apply to the line strip.
+	 * Sets the material of the graph's line strips.
+	 * @param material The LineMaterial to apply to the line strips.
 	 */
 	material(material: LineMaterial): this {
-		this.linestrip.material(material);
+		this.linestrips.forEach((line) => {
+			line.material(material);
+		});
 		return this;
 	}
 
 	/**
-	 * Sets the line width of the graph's line strip.
+	 * Sets the line width of the graph's line strips.
 	 * @param width The new line width.
 	 */
 	linewidth(width: number): this {
-		this.linestrip.linewidth(width);
+		this.linestrips.forEach((line) => {
+			line.linewidth(width);
+		});
 		return this;
 	}
 
 	/**
-	 * Sets the graph's line strip to be dashed. If no parameters are provided, default values are used.
+	 * Sets the graph's line strips to be dashed. If no parameters are provided, default values are used.
 	 * @param dashSize Size of the dashes.
 	 * @param gapSize Size of the gaps between dashes.
 	 */
 	dashed(dashSize?: number, gapSize?: number): this {
-		this.linestrip.dashed(dashSize, gapSize);
+		this.linestrips.forEach((line) => {
+			line.dashed(dashSize, gapSize);
+		});
+		return this;
+	}
+
+	/**
+	 * Draws dashed vertical lines at the detected discontinuities of the graph, such as the asymptotes of tan(x).
+	 * @param color (Optional) The color of the asymptote lines. Defaults to the context's muted color.
+	 */
+	asymptotes(color?: THREE.ColorRepresentation): this {
+		if (this.asymptoteLines.length !== 0) return this;
+
+		for (const x of this.discontinuities) {
+			const line = this.ctxRef
+				.line([x, -this.clip, 0], [x, this.clip, 0])
+				.color(color ?? this.ctxRef.COLOR.MUTED)
+				.dashed();
+			this.mesh.add(line.mesh);
+			this.asymptoteLines.push(line);
+		}
+
 		return this;
 	}
+
+	/**
+	 * Bisects the interval between x0 and x1 to locate a break in the graph, either where the function becomes
+	 * undefined or where it jumps. Returns the points sampled on either side of the break (ordered by x) up to the
+	 * point where the graph leaves the visible range, the remaining jump across the break and its x position.
+	 */
+	private refineBreak(x0: number, x1: number) {
+		const left: THREE.Vector2[] = [];
+		const right: THREE.Vector2[] = [];
+
+		let a = x0;
+		let b = x1;
+		let ya = this.func(a);
+		let yb = this.func(b);
+
+		for (let i = 0; i < 40; i++) {
+			const m = (a + b) * 0.5;
+			if (m === a || m === b) break;
+			const ym = this.func(m);
+
+			let breakIsRight: boolean;
+			if (!isValid(ya)) {
+				breakIsRight = !isValid(ym);
+			} else if (!isValid(yb)) {
+				breakIsRight = isValid(ym);
+			} else if (!isValid(ym)) {
+				breakIsRight = Math.abs(ya) < Math.abs(yb);
+			} else {
+				breakIsRight = Math.abs(ym - ya) < Math.abs(yb - ym);
+			}
+
+			// When the break lies between m and b, m becomes the new left bound.
+			if (breakIsRight) {
+				a = m;
+				ya = ym;
+				if (isValid(ym)) left.push(vec2(m, ym));
+			} else {
+				b = m;
+				yb = ym;
+				if (isValid(ym)) right.unshift(vec2(m, ym));
+			}
+		}
+
+		const gap =
+			isValid(ya) && isValid(yb)
+				? Math.abs(yb - ya)
+				: Number.POSITIVE_INFINITY;
+
+		return {
+			left: this.clipRefined(left),
+			right: this.clipRefined(right.reverse()).reverse(),
+			gap,
+			breakX: (a + b) * 0.5,
+		};
+	}
+
+	/** Returns whether the given point lies outside the visible range of y values. */
+	private isOffScreen(point: THREE.Vector2 | undefined) {
+		return point !== undefined && Math.abs(point.y) > this.clip;
+	}
+
+	/**
+	 * Keeps refined points, ordered from the sampled side toward the break, until the first one that leaves the visible
+	 * range. Points beyond that would only add precision far outside the screen.
+	 */
+	private clipRefined(points: THREE.Vector2[]) {
+		const index = points.findIndex(({ y }) => Math.abs(y) > this.clip);
+		return index === -1 ? points : points.slice(0, index + 1);
+	}
 }
+
+/** Returns whether a graph value is a finite number. */
+const isValid = (y: number) => !isNaN(y) && isFinite(y);
@@ -1,13 +1,15 @@
 import { Ctx, THREE, type Vec2, type Vec3 } from "../index.ts";
 import { toVec2, toVec3, vec2 } from "../vecUtils.ts";
-import type { HeightField, LineStrip, RendererObject } from "./index.ts";
+import { type HeightField, type LineStrip, SceneObject } from "./index.ts";
 import type { LineStripColor } from "./linestrip.ts";
 
 type Graph3dColor =
 	| THREE.ColorRepresentation
 	| ((x: number, y: number, z: number) => THREE.ColorRepresentation);
 
-export class Graph3d implements RendererObject<Graph3dColor> {
+export class Graph3d extends SceneObject<Graph3dColor> {
+	readonly typeName = "Graph3d";
+
 	/**
 	 * The Group mesh containing the surface and any grid lines.
 	 */
@@ -28,9 +30,6 @@ export class Graph3d implements RendererObject<Graph3dColor> {
 	 */
 	values: THREE.Vector3[];
 
-	/** Reference to the rendering context. */
-	private ctxRef: Ctx;
-
 	/** The function used to compute the graph's y values. */
 	private func: (x: number, z: number) => number;
 
@@ -38,9 +37,10 @@ export class Graph3d implements RendererObject<Graph3dColor> {
 	private graphPointCount: THREE.Vector2;
 
 	constructor(ctx: Ctx, func: (x: number, z: number) => number, size?: Vec2) {
-		const defaultSize = 100 / ctx.zoom();
+		super(ctx);
+		const defaultSize = 100 / ctx.pixelsPerUnit();
 		const { x: width, y: depth } = toVec2(size ?? defaultSize);
-		const resolution = ctx.zoom() * 0.1;
+		const resolution = ctx.pixelsPerUnit() * 0.1;
 
 		const xSeg = Math.round(width * resolution);
 		const zSeg = Math.round(depth * resolution);
@@ -76,7 +76,6 @@ export class Graph3d implements RendererObject<Graph3dColor> {
 
 		this.linestrips = [];
 		this.func = func;
-		this.ctxRef = ctx;
 	}
 
 	pos(position: Vec3): this {
@@ -128,7 +127,7 @@ export class Graph3d implements RendererObject<Graph3dColor> {
 		const { width, height: depth } =
 			this.heightField.mesh.geometry.parameters;
 
-		const yOffset = 1 / this.ctxRef.zoom();
+		const yOffset = 1 / this.ctxRef.pixelsPerUnit();
 
 		for (let i = 0; i < xPoints; i++) {
 			const x = -width * 0.5 + (i / xSeg) * width;
@@ -0,0 +1,231 @@
+import { THREE, type Ctx, type Vec3 } from "../index.ts";
+import type { Picker } from "../picking.ts";
+import { toVec3 } from "../vecUtils.ts";
+import { BasicObject } from "./index.ts";
+
+type HandleConfig = {
+	/**
+	 * Restricts the handle to the plane through its initial position with the given normal. Without any constraint, the
+	 * handle moves in the plane facing the camera.
+	 */
+	plane?: Vec3;
+	/** Restricts the handle to the line through its initial position with the given direction. */
+	line?: Vec3;
+	/** Restricts the handle to a parametric curve. The initial position is moved to the closest point on the curve. */
+	curve?: (t: number) => Vec3;
+	/** The range [from, to] of the curve parameter. Defaults to [0, 2π]. */
+	curveRange?: [number, number];
+	/**
+	 * Snaps the handle to a grid with the given spacing. On a line, the distance from the initial position is snapped
+	 * instead. Has no effect on curves.
+	 */
+	snap?: number;
+	/** The radius of the grab point. Defaults to 6 screen pixels at the current zoom level. */
+	radius?: number;
+};
+
+/** Number of points a curve is sampled at to find the closest point to the pointer. */
+const CURVE_SAMPLES = 512;
+
+export class Handle extends BasicObject<THREE.SphereGeometry> {
+	readonly typeName = "Handle";
+
+	/** Whether the handle is currently being dragged. */
+	dragging: boolean;
+
+	/** The current position of the handle. */
+	private position: THREE.Vector3;
+
+	/** The initial position, which the plane and line constraints pass through. */
+	private origin: THREE.Vector3;
+
+	/** The constraint configuration. */
+	private config: HandleConfig;
+
+	/** The sampled points of the curve constraint, if any. */
+	private curvePoints: THREE.Vector3[];
+
+	/** The curve parameters of each sampled point. */
+	private curveParams: number[];
+
+	/** The curve parameter of the current position, if constrained to a curve. */
+	private curveParam: number | null;
+
+	/** Offset between the handle and the point where it was grabbed, so that the handle doesn't jump when grabbed. */
+	private grabOffset: THREE.Vector3;
+
+	/** The plane dragging happens in, fixed when a drag starts. */
+	private dragPlane: THREE.Plane;
+
+	constructor(
+		ctx: Ctx,
+		picker: Picker,
+		initial: Vec3,
+		config?: HandleConfig,
+	) {
+		const radius = config?.radius ?? 6 / ctx.pixelsPerUnit();
+		super(ctx, new THREE.SphereGeometry(radius, 16, 8));
+
+		this.config = config ?? {};
+		this.dragging = false;
+		this.origin = toVec3(initial).clone();
+		this.position = this.origin.clone();
+		this.grabOffset = new THREE.Vector3();
+		this.dragPlane = new THREE.Plane();
+		this.curvePoints = [];
+		this.curveParams = [];
+		this.curveParam = null;
+
+		if (this.config.curve !== undefined) {
+			const [from, to] = this.config.curveRange ?? [0, Math.PI * 2];
+			for (let i = 0; i <= CURVE_SAMPLES; i++) {
+				const t = from + (i / CURVE_SAMPLES) * (to - from);
+				this.curveParams.push(t);
+				this.curvePoints.push(toVec3(this.config.curve(t)).clone());
+			}
+		}
+
+		this.setValue(this.origin);
+
+		picker.draggable(this.mesh, {
+			start: (ray) => this.onDragStart(ray),
+			move: (ray) => this.onDragMove(ray),
+			end: () => {
+				this.dragging = false;
+			},
+		});
+
+		ctx.spawn(this.mesh);
+	}
+
+	/**
+	 * Moves the handle to the given position. Same as {@link setValue}.
+	 * @param position The new position.
+	 */
+	pos(position: Vec3): this {
+		this.setValue(position);
+		return this;
+	}
+
+	/** Returns the current position of the handle. */
+	value = (): THREE.Vector3 => {
+		return this.position.clone();
+	};
+
+	/**
+	 * Moves the handle to the given position. The position is constrained and snapped like positions set by dragging.
+	 * @param value The new position.
+	 */
+	setValue = (value: Vec3) => {
+		this.position = this.constrain(toVec3(value).clone());
+		this.mesh.position.copy(this.position);
+	};
+
+	/**
+	 * Returns the curve parameter t of the current position if the handle is constrained to a curve, otherwise null.
+	 */
+	param = (): number | null => {
+		return this.curveParam;
+	};
+
+	/**
+	 * Starts dragging. The drag plane is chosen so that the handle follows the pointer as closely as possible.
+	 */
+	private onDragStart(ray: THREE.Ray) {
+		this.dragging = true;
+
+		const normal = new THREE.Vector3();
+		if (this.config.plane !== undefined) {
+			normal.copy(toVec3(this.config.plane)).normalize();
+		} else if (this.config.line !== undefined) {
+			// The plane containing the line that faces the camera the most.
+			const dir = toVec3(this.config.line).clone().normalize();
+			const side = new THREE.Vector3().crossVectors(dir, ray.direction);
+			normal.crossVectors(dir, side).normalize();
+			if (normal.lengthSq() === 0) normal.copy(ray.direction).negate();
+		} else {
+			this.ctxRef.camera.getWorldDirection(normal).negate();
+		}
+		this.dragPlane.setFromNormalAndCoplanarPoint(normal, this.position);
+
+		const grabbed = ray.intersectPlane(this.dragPlane, new THREE.Vector3());
+		if (grabbed !== null && this.config.curve === undefined) {
+			this.grabOffset.copy(this.position).sub(grabbed);
+		} else {
+			this.grabOffset.set(0, 0, 0);
+		}
+	}
+
+	/**
+	 * Moves the handle to follow the pointer.
+	 */
+	private onDragMove(ray: THREE.Ray) {
+		if (this.config.curve !== undefined) {
+			this.setValue(this.closestCurvePoint(ray));
+			return;
+		}
+
+		const target = ray.intersectPlane(this.dragPlane, new THREE.Vector3());
+		if (target === null) return;
+		this.setValue(target.add(this.grabOffset));
+	}
+
+	/**
+	 * Applies the constraint and snapping to a position.
+	 */
+	private constrain(position: THREE.Vector3) {
+		const { plane, line, snap } = this.config;
+
+		if (this.config.curve !== undefined) {
+			let closest = 0;
+			for (let i = 1; i < this.curvePoints.length; i++) {
+				if (
+					this.curvePoints[i]!.distanceToSquared(position) <
+					this.curvePoints[closest]!.distanceToSquared(position)
+				) {
+					closest = i;
+				}
+			}
+			this.curveParam = this.curveParams[closest]!;
+			return this.curvePoints[closest]!.clone();
+		}
+
+		if (line !== undefined) {
+			const dir = toVec3(line).clone().normalize();
+			let distance = position.clone().sub(this.origin).dot(dir);
+			if (snap !== undefined) {
+				distance = Math.round(distance / snap) * snap;
+			}
+			return this.origin.clone().addScaledVector(dir, distance);
+		}
+
+		if (plane !== undefined) {
+			const p = new THREE.Plane().setFromNormalAndCoplanarPoint(
+				toVec3(plane).clone().normalize(),
+				this.origin,
+			);
+			p.projectPoint(position, position);
+		}
+
+		if (snap !== undefined) {
+			position.divideScalar(snap).round().multiplyScalar(snap);
+		}
+		return position;
+	}
+
+	/**
+	 * Returns the sampled point of the curve closest to the given ray.
+	 */
+	private closestCurvePoint(ray: THREE.Ray) {
+		let closest = this.curvePoints[0]!;
+		let closestDistance = Number.POSITIVE_INFINITY;
+		for (const point of this.curvePoints) {
+			const distance = ray.distanceSqToPoint(point);
+			if (distance < closestDistance) {
+				closest = point;
+				closestDistance = distance;
+			}
+		}
+		return closest;
+	}
+}
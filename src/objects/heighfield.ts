@@ -1,10 +1,17 @@
 import { Ctx, THREE, type Vec2 } from "../index.ts";
 import { toVec2 } from "../vecUtils.ts";
 import { BasicObject } from "./index.ts";
+import {
+	readColors,
+	toHexList,
+	type SerializedObject,
+} from "../serialization.ts";
 
 type HeightFieldColor = THREE.ColorRepresentation | THREE.ColorRepresentation[];
 
 export class HeightField extends BasicObject<THREE.PlaneGeometry> {
+	readonly typeName = "HeightField";
+
 	constructor(
 		ctx: Ctx,
 		size: Vec2,
@@ -89,6 +96,28 @@ export class HeightField extends BasicObject<THREE.PlaneGeometry> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const params = this.mesh.geometry.parameters;
+		const heights = [];
+		for (let i = 0; i < this.pointCount; i++) {
+			heights.push(this.getHeight(i));
+		}
+		const colors = readColors(
+			this.mesh.geometry.getAttribute("color"),
+			this.pointCount,
+		);
+
+		return {
+			type: "heightField",
+			size: [params.width, params.height],
+			segments: [params.widthSegments, params.heightSegments],
+			heights,
+			...this.serializeStyle(),
+			// The material is white and the colors are stored per vertex.
+			color: toHexList(colors),
+		};
+	}
+
 	/**
 	 * Gets the number of vertices in the height field.
 	 * @returns Number of vertices.
@@ -0,0 +1,398 @@
+import { THREE, vec2, type Ctx, type Vec3 } from "../index.ts";
+import { LineMaterial } from "three/addons/lines/LineMaterial.js";
+import { toVec3 } from "../vecUtils.ts";
+import { type LineStrip, SceneObject } from "./index.ts";
+
+type ImplicitCurveColor =
+	| THREE.ColorRepresentation
+	| ((x: number, y: number, level: number) => THREE.ColorRepresentation);
+
+type ImplicitCurveConfig = {
+	/** The iso-values to extract contours for. Default is [0], i.e. the curve f(x, y) = 0. */
+	levels?: number[];
+	/** Number of cells of the initial grid along the longer side of the region. Default is 64. */
+	resolution?: number;
+	/** How many times cells containing the curve are subdivided. Each level halves the cell size. Default is 3. */
+	depth?: number;
+};
+
+/**
+ * Marching squares lookup table. For each of the 16 corner configurations, lists pairs of cell edges that a contour
+ * segment connects. Corners are ordered bottom-left, bottom-right, top-right, top-left and edges bottom, right, top,
+ * left. Saddle cases 5 and 10 are resolved separately using the value at the cell's center.
+ */
+const SEGMENT_TABLE: [number, number][][] = [
+	[],
+	[[3, 0]],
+	[[0, 1]],
+	[[3, 1]],
+	[[1, 2]],
+	[
+		[3, 0],
+		[1, 2],
+	],
+	[[0, 2]],
+	[[3, 2]],
+	[[2, 3]],
+	[[2, 0]],
+	[
+		[0, 1],
+		[2, 3],
+	],
+	[[2, 1]],
+	[[1, 3]],
+	[[1, 0]],
+	[[0, 3]],
+	[],
+];
+
+export class ImplicitCurve extends SceneObject<ImplicitCurveColor> {
+	readonly typeName = "ImplicitCurve";
+
+	/**
+	 * The Group mesh containing all line strips of the curve.
+	 */
+	mesh: THREE.Group;
+
+	/**
+	 * The line strips making up the curve. A curve consists of one line strip per connected piece of each contour.
+	 */
+	linestrips: LineStrip[];
+
+	/**
+	 * The computed points of each contour piece. Each entry corresponds to the line strip at the same index in
+	 * `linestrips`.
+	 */
+	contours: THREE.Vector2[][];
+
+	/**
+	 * The iso-value of each contour piece. Each entry corresponds to the line strip at the same index in `linestrips`.
+	 */
+	levels: number[];
+
+	/** The function whose level sets are drawn. */
+	private func: (x: number, y: number) => number;
+
+	/** Cache of function values on the finest grid, keyed by grid coordinates. */
+	private samples: Map<number, number>;
+
+	/** Number of cells of the finest grid along x and y. */
+	private fineCount: THREE.Vector2;
+
+	/** Lower-left corner of the region. */
+	private origin: THREE.Vector2;
+
+	/** Size of a single cell of the finest grid. */
+	private cellSize: THREE.Vector2;
+
+	constructor(
+		ctx: Ctx,
+		func: (x: number, y: number) => number,
+		xRange?: [number, number],
+		yRange?: [number, number],
+		config?: ImplicitCurveConfig,
+	) {
+		super(ctx);
+		const defaultExtentHalf = 250 / ctx.pixelsPerUnit();
+		const [xFrom, xTo] = xRange ?? [-defaultExtentHalf, defaultExtentHalf];
+		const [yFrom, yTo] = yRange ?? [-defaultExtentHalf, defaultExtentHalf];
+
+		if (xFrom >= xTo || yFrom >= yTo) {
+			throw new Error("Invalid range: 'from' must be less than 'to'.");
+		}
+
+		const { levels = [0], resolution = 64, depth = 3 } = config ?? {};
+
+		const width = xTo - xFrom;
+		const height = yTo - yFrom;
+		const coarseSize = Math.max(width, height) / resolution;
+		const coarseX = Math.max(Math.ceil(width / coarseSize), 1);
+		const coarseY = Math.max(Math.ceil(height / coarseSize), 1);
+		const scale = 2 ** depth;
+
+		this.func = func;
+		this.samples = new Map();
+		this.origin = vec2(xFrom, yFrom);
+		this.fineCount = vec2(coarseX * scale, coarseY * scale);
+		this.cellSize = vec2(
+			width / this.fineCount.x,
+			height / this.fineCount.y,
+		);
+
+		this.contours = [];
+		this.levels = [];
+		this.linestrips = [];
+
+		for (const level of levels) {
+			const cells = this.findCells(level, coarseX, coarseY, scale);
+			for (const contour of this.traceContours(level, cells)) {
+				this.contours.push(contour);
+				this.levels.push(level);
+			}
+		}
+
+		this.mesh = new THREE.Group();
+		for (const contour of this.contours) {
+			const line = ctx.lineStrip(contour);
+			this.mesh.add(line.mesh);
+			this.linestrips.push(line);
+		}
+		ctx.spawn(this.mesh);
+	}
+
+	pos(position: Vec3): this {
+		this.mesh.position.copy(toVec3(position));
+		return this;
+	}
+
+	/**
+	 * Sets the color of the curve.
+	 * @param color A color or a function that returns a color based on the x and y values of a point and the iso-value
+	 * of the contour it belongs to.
+	 */
+	color(color: ImplicitCurveColor): this {
+		this.linestrips.forEach((line, i) => {
+			const level = this.levels[i]!;
+			const colorInput =
+				typeof color === "function"
+					? this.contours[i]!.map(({ x, y }) => color(x, y, level))
+					: color;
+			line.color(colorInput);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the material of the curve's line strips.
+	 * @param material The LineMaterial to apply to the line strips.
+	 */
+	material(material: LineMaterial): this {
+		this.linestrips.forEach((line) => {
+			line.material(material);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the line width of the curve's line strips.
+	 * @param width The new line width.
+	 */
+	linewidth(width: number): this {
+		this.linestrips.forEach((line) => {
+			line.linewidth(width);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the curve's line strips to be dashed. If no parameters are provided, default values are used.
+	 * @param dashSize Size of the dashes.
+	 * @param gapSize Size of the gaps between dashes.
+	 */
+	dashed(dashSize?: number, gapSize?: number): this {
+		this.linestrips.forEach((line) => {
+			line.dashed(dashSize, gapSize);
+		});
+		return this;
+	}
+
+	/**
+	 * Finds the cells of the finest grid that the contour passes through. Starts with a coarse grid and repeatedly
+	 * subdivides only the cells whose corners lie on different sides of the contour.
+	 * @returns The lower-left fine grid coordinates of each found cell.
+	 */
+	private findCells(
+		level: number,
+		coarseX: number,
+		coarseY: number,
+		scale: number,
+	) {
+		let size = scale;
+		let cells: [number, number][] = [];
+		for (let j = 0; j < coarseY; j++) {
+			for (let i = 0; i < coarseX; i++) {
+				cells.push([i * scale, j * scale]);
+			}
+		}
+
+		while (true) {
+			cells = cells.filter(([i, j]) => this.isCrossed(level, i, j, size));
+			if (size === 1) return cells;
+
+			const half = size / 2;
+			cells = cells.flatMap(([i, j]): [number, number][] => [
+				[i, j],
+				[i + half, j],
+				[i, j + half],
+				[i + half, j + half],
+			]);
+			size = half;
+		}
+	}
+
+	/**
+	 * Returns whether the cell with the given lower-left fine grid coordinates and size has corners on both sides of
+	 * the contour.
+	 */
+	private isCrossed(level: number, i: number, j: number, size: number) {
+		let above = false;
+		let below = false;
+		for (const [di, dj] of [
+			[0, 0],
+			[size, 0],
+			[size, size],
+			[0, size],
+		] as const) {
+			const value = this.sample(i + di, j + dj);
+			if (isNaN(value)) return false;
+			if (value > level) above = true;
+			else below = true;
+		}
+		return above && below;
+	}
+
+	/**
+	 * Runs marching squares over the given cells and stitches the resulting segments into polylines.
+	 */
+	private traceContours(level: number, cells: [number, number][]) {
+		// Contour points lie on grid edges. Edges are identified by their lower-left grid point and orientation, so that
+		// neighbouring cells produce the same id for a shared edge.
+		const points = new Map<number, THREE.Vector2>();
+		const neighbours = new Map<number, number[]>();
+
+		const connect = (a: number, b: number) => {
+			if (a === b) return;
+			neighbours.set(a, [...(neighbours.get(a) ?? []), b]);
+			neighbours.set(b, [...(neighbours.get(b) ?? []), a]);
+		};
+
+		for (const [i, j] of cells) {
+			const corners = [
+				this.sample(i, j),
+				this.sample(i + 1, j),
+				this.sample(i + 1, j + 1),
+				this.sample(i, j + 1),
+			];
+
+			let index = 0;
+			corners.forEach((value, k) => {
+				if (value > level) index |= 1 << k;
+			});
+
+			let segments = SEGMENT_TABLE[index]!;
+			if (index === 5 || index === 10) {
+				const center = this.func(
+					this.origin.x + (i + 0.5) * this.cellSize.x,
+					this.origin.y + (j + 0.5) * this.cellSize.y,
+				);
+				// By default, the corners above the level are cut off from each other. If the center is above the level
+				// too, they are connected instead, and the corners below the level are cut off.
+				if (center > level) {
+					segments = SEGMENT_TABLE[index === 5 ? 10 : 5]!;
+				}
+			}
+
+			for (const [edgeA, edgeB] of segments) {
+				const a = this.edgePoint(level, i, j, edgeA, points);
+				const b = this.edgePoint(level, i, j, edgeB, points);
+				connect(a, b);
+			}
+		}
+
+		const contours: THREE.Vector2[][] = [];
+		const visited = new Set<number>();
+
+		const walk = (start: number) => {
+			const ids = [start];
+			visited.add(start);
+			let current = start;
+			while (true) {
+				const next = neighbours
+					.get(current)!
+					.find((id) => !visited.has(id));
+				if (next === undefined) break;
+				ids.push(next);
+				visited.add(next);
+				current = next;
+			}
+			return ids;
+		};
+
+		// Open contours are walked from one of their ends first, so they are not split in two.
+		const starts = [
+			...[...neighbours.keys()].filter(
+				(id) => neighbours.get(id)!.length === 1,
+			),
+			...neighbours.keys(),
+		];
+
+		for (const start of starts) {
+			if (visited.has(start)) continue;
+
+			const ids = walk(start);
+			const isClosed =
+				ids.length > 2 && neighbours.get(ids.at(-1)!)!.includes(start);
+			if (isClosed) ids.push(start);
+
+			if (ids.length > 1) {
+				contours.push(ids.map((id) => points.get(id)!));
+			}
+		}
+
+		return contours;
+	}
+
+	/**
+	 * Returns the id of the contour point on the given edge of the cell, computing its position by linear interpolation
+	 * if it does not exist yet.
+	 */
+	private edgePoint(
+		level: number,
+		i: number,
+		j: number,
+		edge: number,
+		points: Map<number, THREE.Vector2>,
+	) {
+		// Bottom and top edges are horizontal, right and left edges are vertical.
+		const isHorizontal = edge === 0 || edge === 2;
+		const gi = edge === 1 ? i + 1 : i;
+		const gj = edge === 2 ? j + 1 : j;
+
+		const id =
+			(gj * (this.fineCount.x + 1) + gi) * 2 + (isHorizontal ? 0 : 1);
+
+		if (!points.has(id)) {
+			const v0 = this.sample(gi, gj);
+			const v1 = isHorizontal
+				? this.sample(gi + 1, gj)
+				: this.sample(gi, gj + 1);
+			const t = v1 === v0 ? 0.5 : (level - v0) / (v1 - v0);
+
+			const x =
+				this.origin.x + (gi + (isHorizontal ? t : 0)) * this.cellSize.x;
+			const y =
+				this.origin.y + (gj + (isHorizontal ? 0 : t)) * this.cellSize.y;
+			points.set(id, vec2(x, y));
+		}
+
+		return id;
+	}
+
+	/**
+	 * Returns the function value at the given fine grid coordinates. Values are cached, since neighbouring cells and
+	 * multiple levels share grid points. Infinite values are treated as undefined.
+	 */
+	private sample(i: number, j: number) {
+		const key = j * (this.fineCount.x + 1) + i;
+		let value = this.samples.get(key);
+		if (value === undefined) {
+			value = this.func(
+				this.origin.x + i * this.cellSize.x,
+				this.origin.y + j * this.cellSize.y,
+			);
+			if (!isFinite(value)) value = NaN;
+			this.samples.set(key, value);
+		}
+		return value;
+	}
+}
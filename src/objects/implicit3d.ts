@@ -0,0 +1,252 @@
+import { Ctx, THREE, type Vec3 } from "../index.ts";
+import { toVec3 } from "../vecUtils.ts";
+import { BasicObject } from "./index.ts";
+import { triTable as triTableTyped } from "three/addons/objects/MarchingCubes.js";
+
+type ImplicitSurfaceColor =
+	| THREE.ColorRepresentation
+	| ((x: number, y: number, z: number) => THREE.ColorRepresentation);
+
+type ImplicitSurfaceConfig = {
+	/** The iso-value of the surface. Default is 0, i.e. the surface f(x, y, z) = 0. */
+	level?: number;
+	/** Number of cells along each axis of the bounding box. Default is 48. */
+	resolution?: Vec3;
+};
+
+// The type declarations describe the table as an array of arrays, but it is a flat array with 16 entries per case.
+const triTable = triTableTyped as unknown as Int32Array;
+
+/** Corner offsets of a cube, in the order used by the marching cubes tables. */
+const CORNERS: [number, number, number][] = [
+	[0, 0, 0],
+	[1, 0, 0],
+	[1, 1, 0],
+	[0, 1, 0],
+	[0, 0, 1],
+	[1, 0, 1],
+	[1, 1, 1],
+	[0, 1, 1],
+];
+
+/** Pairs of corner indices connected by each of the 12 cube edges, in the order used by the marching cubes tables. */
+const EDGES: [number, number][] = [
+	[0, 1],
+	[1, 2],
+	[3, 2],
+	[0, 3],
+	[4, 5],
+	[5, 6],
+	[7, 6],
+	[4, 7],
+	[0, 4],
+	[1, 5],
+	[2, 6],
+	[3, 7],
+];
+
+export class ImplicitSurface extends BasicObject<THREE.BufferGeometry> {
+	readonly typeName = "ImplicitSurface";
+
+	/**
+	 * The vertices of the extracted surface.
+	 */
+	values: THREE.Vector3[];
+
+	constructor(
+		ctx: Ctx,
+		func: (x: number, y: number, z: number) => number,
+		bounds?: [Vec3, Vec3],
+		config?: ImplicitSurfaceConfig,
+	) {
+		const defaultExtentHalf = 50 / ctx.pixelsPerUnit();
+		const min = toUniformVec3(bounds?.[0] ?? -defaultExtentHalf);
+		const max = toUniformVec3(bounds?.[1] ?? defaultExtentHalf);
+
+		if (min.x >= max.x || min.y >= max.y || min.z >= max.z) {
+			throw new Error(
+				"Invalid bounds: 'min' must be less than 'max' on every axis.",
+			);
+		}
+
+		const level = config?.level ?? 0;
+		const resolution = toUniformVec3(config?.resolution ?? 48);
+		const nx = Math.max(Math.round(resolution.x), 1);
+		const ny = Math.max(Math.round(resolution.y), 1);
+		const nz = Math.max(Math.round(resolution.z), 1);
+		const cellSize = max
+			.clone()
+			.sub(min)
+			.divide(new THREE.Vector3(nx, ny, nz));
+
+		// The field is sampled once at every grid point. Non-finite values are stored as NaN, and cubes with such a
+		// corner are skipped, so that singularities don't produce spurious walls.
+		const px = nx + 1;
+		const py = ny + 1;
+		const field = new Float64Array(px * py * (nz + 1));
+		for (let k = 0; k <= nz; k++) {
+			for (let j = 0; j <= ny; j++) {
+				for (let i = 0; i <= nx; i++) {
+					const value = func(
+						min.x + i * cellSize.x,
+						min.y + j * cellSize.y,
+						min.z + k * cellSize.z,
+					);
+					field[(k * py + j) * px + i] = isFinite(value)
+						? value
+						: NaN;
+				}
+			}
+		}
+
+		const positions: number[] = [];
+		const indices: number[] = [];
+		const values: THREE.Vector3[] = [];
+
+		// Vertices lie on grid edges and are shared between neighbouring cubes, identified by the grid point they start
+		// from and the axis they run along.
+		const vertexIds = new Map<number, number>();
+		const getVertex = (i: number, j: number, k: number, edge: number) => {
+			const [c0, c1] = EDGES[edge]!;
+			const [x0, y0, z0] = CORNERS[c0]!;
+			const [x1, y1, z1] = CORNERS[c1]!;
+			const g0 = ((k + z0) * py + (j + y0)) * px + (i + x0);
+			const g1 = ((k + z1) * py + (j + y1)) * px + (i + x1);
+			const axis = x1 !== x0 ? 0 : y1 !== y0 ? 1 : 2;
+			const id = g0 * 3 + axis;
+
+			let index = vertexIds.get(id);
+			if (index === undefined) {
+				const v0 = field[g0]!;
+				const v1 = field[g1]!;
+				const t = v1 === v0 ? 0.5 : (level - v0) / (v1 - v0);
+				const point = new THREE.Vector3(
+					min.x + (i + x0 + (x1 - x0) * t) * cellSize.x,
+					min.y + (j + y0 + (y1 - y0) * t) * cellSize.y,
+					min.z + (k + z0 + (z1 - z0) * t) * cellSize.z,
+				);
+
+				index = values.length;
+				values.push(point);
+				positions.push(point.x, point.y, point.z);
+				vertexIds.set(id, index);
+			}
+			return index;
+		};
+
+		for (let k = 0; k < nz; k++) {
+			for (let j = 0; j < ny; j++) {
+				for (let i = 0; i < nx; i++) {
+					let cubeIndex = 0;
+					let valid = true;
+					CORNERS.forEach(([x, y, z], c) => {
+						const value =
+							field[((k + z) * py + (j + y)) * px + (i + x)]!;
+						if (isNaN(value)) valid = false;
+						if (value < level) cubeIndex |= 1 << c;
+					});
+					if (!valid) continue;
+
+					const offset = cubeIndex * 16;
+					for (let t = 0; triTable[offset + t] !== -1; t += 3) {
+						const a = getVertex(i, j, k, triTable[offset + t]!);
+						const b = getVertex(i, j, k, triTable[offset + t + 1]!);
+						const c = getVertex(i, j, k, triTable[offset + t + 2]!);
+						if (a !== b && b !== c && a !== c) {
+							indices.push(a, b, c);
+						}
+					}
+				}
+			}
+		}
+
+		// Normals are taken from the gradient of the field, which is smoother than averaging face normals.
+		const normals: number[] = [];
+		const h = Math.min(cellSize.x, cellSize.y, cellSize.z) * 0.1;
+		for (const { x, y, z } of values) {
+			const normal = new THREE.Vector3(
+				func(x + h, y, z) - func(x - h, y, z),
+				func(x, y + h, z) - func(x, y - h, z),
+				func(x, y, z + h) - func(x, y, z - h),
+			);
+			if (normal.lengthSq() === 0 || !isFinite(normal.lengthSq())) {
+				normal.set(0, 1, 0);
+			}
+			normal.normalize();
+			normals.push(normal.x, normal.y, normal.z);
+		}
+
+		const geometry = new THREE.BufferGeometry();
+		geometry.setAttribute(
+			"position",
+			new THREE.Float32BufferAttribute(positions, 3),
+		);
+		geometry.setAttribute(
+			"normal",
+			new THREE.Float32BufferAttribute(normals, 3),
+		);
+		geometry.setIndex(indices);
+
+		super(ctx, geometry);
+
+		this.values = values;
+
+		this.material(
+			new THREE.MeshBasicMaterial({
+				vertexColors: true,
+				side: THREE.DoubleSide,
+				color: new THREE.Color(0xffffff),
+			}),
+		);
+
+		this.color(ctx.COLOR.FOREGROUND);
+
+		ctx.spawn(this.mesh);
+	}
+
+	/**
+	 * Sets the color of the surface.
+	 * @param color A color or a function that returns a color based on the x, y and z values of a vertex.
+	 */
+	color(color: ImplicitSurfaceColor): this {
+		const pointCount = this.values.length;
+		const colorArray = new Float32Array(pointCount * 3);
+
+		for (let i = 0; i < pointCount; i++) {
+			const { x, y, z } = this.values[i]!;
+			const c = new THREE.Color(
+				typeof color === "function" ? color(x, y, z) : color,
+			);
+			colorArray[i * 3] = c.r;
+			colorArray[i * 3 + 1] = c.g;
+			colorArray[i * 3 + 2] = c.b;
+		}
+
+		this.mesh.geometry.setAttribute(
+			"color",
+			new THREE.Float32BufferAttribute(colorArray, 3),
+		);
+
+		return this;
+	}
+
+	/**
+	 * Configures the surface to use a shaded material, keeping its vertex colors.
+	 */
+	shaded(): this {
+		this.material(
+			new THREE.MeshStandardMaterial({
+				vertexColors: true,
+				side: THREE.DoubleSide,
+				color: new THREE.Color(0xffffff),
+			}),
+		);
+		return this;
+	}
+}
+
+/** Like {@link toVec3}, but a single number is used for all three components instead of just x and y. */
+const toUniformVec3 = (v: Vec3) =>
+	typeof v === "number"
+		? new THREE.Vector3().setScalar(v)
+		: toVec3(v).clone();
@@ -1,15 +1,33 @@
-export { type RendererObject, BasicObject } from "./base.ts";
+export {
+	type AcceptsPlainColor,
+	type AnimationTarget,
+	type RendererObject,
+	BasicObject,
+	SceneObject,
+	getMaterials,
+} from "./base.ts";
 
 export { Arrow } from "./arrow.ts";
+export { Axes } from "./axes.ts";
 export { Circle } from "./circle.ts";
+export { ComplexGraph3d, DomainColoring } from "./complex.ts";
 export { Cone } from "./cone.ts";
 export { Cuboid } from "./cuboid.ts";
 export { Cylinder } from "./cylinder.ts";
+export { FlowParticles } from "./flow.ts";
 export { Graph } from "./graph.ts";
 export { Graph3d } from "./graph3d.ts";
+export { Handle } from "./handle.ts";
 export { HeightField } from "./heighfield.ts";
+export { ImplicitCurve } from "./implicit.ts";
+export { ImplicitSurface } from "./implicit3d.ts";
 export { LineStrip } from "./linestrip.ts";
+export { Parametric } from "./parametric.ts";
 export { Plane } from "./plane.ts";
 export { Points } from "./points.ts";
+export { PolarGraph } from "./polar.ts";
 export { Sphere } from "./sphere.ts";
+export { Streamlines } from "./streamlines.ts";
+export { ParametricSurface } from "./surface.ts";
 export { Torus } from "./torus.ts";
+export { VectorField } from "./vectorfield.ts";
@@ -1,29 +1,35 @@
 import { Ctx, THREE, type Vec3 } from "../index.ts";
-import type { RendererObject } from "./index.ts";
+import { SceneObject } from "./index.ts";
 import { LineMaterial } from "three/addons/lines/LineMaterial.js";
 import { Line2 } from "three/addons/lines/Line2.js";
 import { LineGeometry } from "three/addons/lines/LineGeometry.js";
-import { toVec3 } from "../vecUtils.ts";
+import { toVec3, vec3 } from "../vecUtils.ts";
+import {
+	readColors,
+	toHex,
+	toHexList,
+	toTuple,
+	type SerializedObject,
+} from "../serialization.ts";
 
 export type LineStripColor =
 	| THREE.ColorRepresentation
 	| { from: THREE.ColorRepresentation; to: THREE.ColorRepresentation }
 	| THREE.ColorRepresentation[];
 
-export class LineStrip implements RendererObject<LineStripColor> {
+export class LineStrip extends SceneObject<LineStripColor> {
+	readonly typeName = "LineStrip";
+
 	/**
 	 * The Line2 mesh representing the line strip.
 	 */
 	mesh: Line2;
 
-	/** Reference to the rendering context. */
-	private ctxRef: Ctx;
-
 	/** Number of points in the line strip. */
 	private pointCount: number;
 
 	constructor(ctx: Ctx, points: Vec3[]) {
-		this.ctxRef = ctx;
+		super(ctx);
 		this.pointCount = points.length;
 
 		const pointArray = points.map(toVec3);
@@ -126,10 +132,54 @@ export class LineStrip implements RendererObject<LineStripColor> {
 	 * @param gapSize Size of the gaps between dashes.
 	 */
 	dashed(dashSize?: number, gapSize?: number): this {
-		const scale = 1 / this.ctxRef.zoom();
+		const scale = 1 / this.ctxRef.pixelsPerUnit();
 		this.mesh.material.gapSize = gapSize ?? 20 * scale;
 		this.mesh.material.dashSize = dashSize ?? 10 * scale;
 		this.mesh.material.dashed = true;
 		return this;
 	}
+
+	serialize(): SerializedObject & { type: "lineStrip" } {
+		const geometry = this.mesh.geometry;
+		const material = this.mesh.material;
+
+		// The geometry stores segments, so each point is the start of a segment, except the last one.
+		const starts = geometry.getAttribute("instanceStart");
+		const ends = geometry.getAttribute("instanceEnd");
+		const last = ends.count - 1;
+		const points = [];
+		for (let i = 0; i < starts.count; i++) {
+			points.push(toTuple(vec3(0, 0, 0).fromBufferAttribute(starts, i)));
+		}
+		if (last >= 0) {
+			points.push(toTuple(vec3(0, 0, 0).fromBufferAttribute(ends, last)));
+		}
+
+		let color;
+		if (material.vertexColors && last >= 0) {
+			const colorStarts = geometry.getAttribute("instanceColorStart");
+			const colorEnds = geometry.getAttribute("instanceColorEnd");
+			const colors = readColors(colorStarts, colorStarts.count);
+			colors.push(new THREE.Color().fromBufferAttribute(colorEnds, last));
+			color = toHexList(colors);
+		} else {
+			color = toHex(material.color);
+		}
+
+		return {
+			type: "lineStrip",
+			points,
+			linewidth: material.linewidth,
+			...(material.dashed
+				? {
+						dashed: {
+							dashSize: material.dashSize,
+							gapSize: material.gapSize,
+						},
+					}
+				: {}),
+			color,
+			...this.serializeStyle(),
+		};
+	}
 }
@@ -0,0 +1,191 @@
+import { type Ctx, type THREE, type Vec3 } from "../index.ts";
+import { LineMaterial } from "three/addons/lines/LineMaterial.js";
+import { toVec3 } from "../vecUtils.ts";
+import { type LineStrip, SceneObject } from "./index.ts";
+
+type ParametricColor =
+	| THREE.ColorRepresentation
+	| ((t: number, point: THREE.Vector3) => THREE.ColorRepresentation);
+
+export class Parametric extends SceneObject<ParametricColor> {
+	readonly typeName = "Parametric";
+
+	/**
+	 * The underlying LineStrip mesh representing the curve.
+	 */
+	linestrip: LineStrip;
+
+	/** The Line2 mesh of the curve. */
+	get mesh() {
+		return this.linestrip.mesh;
+	}
+
+	/**
+	 * The sampled parameter values of the curve. Each entry corresponds to the point at the same index in `points`.
+	 */
+	params: number[];
+
+	/**
+	 * The sampled points of the curve.
+	 */
+	points: THREE.Vector3[];
+
+	constructor(ctx: Ctx, func: (t: number) => Vec3, range?: [number, number]) {
+		super(ctx);
+		const from = range !== undefined ? range[0] : 0;
+		const to = range !== undefined ? range[1] : Math.PI * 2;
+
+		if (from >= to) {
+			throw new Error("Invalid range: 'from' must be less than 'to'.");
+		}
+
+		const evaluate = (t: number) => {
+			const point = toVec3(func(t)).clone();
+			if (
+				!isFinite(point.x) ||
+				!isFinite(point.y) ||
+				!isFinite(point.z)
+			) {
+				throw new Error(
+					`Parametric function returned invalid value at t=${t}: (${point.x}, ${point.y}, ${point.z})`,
+				);
+			}
+			return point;
+		};
+
+		// Curves are first sampled coarsely, after which segments are subdivided wherever the curve bends more than
+		// `maxAngle`. Segments shorter than ~4 screen pixels at the current zoom level are never subdivided.
+		const initialCount = 64;
+		const maxDepth = 10;
+		const maxAngle = Math.PI / 36;
+		const minLength = 4 / ctx.pixelsPerUnit();
+
+		this.params = [from];
+		this.points = [evaluate(from)];
+
+		let prevT = from;
+		let prevPoint = this.points[0]!;
+
+		for (let i = 1; i <= initialCount; i++) {
+			const t = from + (i / initialCount) * (to - from);
+			const point = evaluate(t);
+			this.subdivide(
+				evaluate,
+				prevT,
+				prevPoint,
+				t,
+				point,
+				maxDepth,
+				maxAngle,
+				minLength,
+			);
+			prevT = t;
+			prevPoint = point;
+		}
+
+		this.linestrip = ctx.lineStrip(this.points);
+	}
+
+	pos(position: Vec3): this {
+		this.linestrip.pos(position);
+		return this;
+	}
+
+	/**
+	 * Sets the color of the curve's line strip.
+	 * @param color A color or a function that returns a color based on the parameter t and the point on the curve.
+	 */
+	color(color: ParametricColor): this {
+		const colorInput =
+			typeof color === "function"
+				? this.points.map((point, i) => color(this.params[i]!, point))
+				: color;
+
+		this.linestrip.color(colorInput);
+		return this;
+	}
+
+	/**
+	 * Sets the material of the curve's line strip.
+	 * @param material The LineMaterial to apply to the line strip.
+	 */
+	material(material: LineMaterial): this {
+		this.linestrip.material(material);
+		return this;
+	}
+
+	/**
+	 * Sets the line width of the curve's line strip.
+	 * @param width The new line width.
+	 */
+	linewidth(width: number): this {
+		this.linestrip.linewidth(width);
+		return this;
+	}
+
+	/**
+	 * Sets the curve's line strip to be dashed. If no parameters are provided, default values are used.
+	 * @param dashSize Size of the dashes.
+	 * @param gapSize Size of the gaps between dashes.
+	 */
+	dashed(dashSize?: number, gapSize?: number): this {
+		this.linestrip.dashed(dashSize, gapSize);
+		return this;
+	}
+
+	/**
+	 * Recursively samples the segment between t0 and t1 and pushes the resulting points, excluding the start point.
+	 * A segment is split in half whenever the midpoint deviates from the straight line by more than the given angle.
+	 */
+	private subdivide(
+		evaluate: (t: number) => THREE.Vector3,
+		t0: number,
+		p0: THREE.Vector3,
+		t1: number,
+		p1: THREE.Vector3,
+		depth: number,
+		maxAngle: number,
+		minLength: number,
+	) {
+		if (depth > 0) {
+			const tMid = (t0 + t1) * 0.5;
+			const pMid = evaluate(tMid);
+
+			const a = pMid.clone().sub(p0);
+			const b = p1.clone().sub(pMid);
+			const lengthA = a.length();
+			const lengthB = b.length();
+
+			const isLong = lengthA + lengthB > minLength;
+			const isBent =
+				lengthA > 0 && lengthB > 0 && a.angleTo(b) > maxAngle;
+
+			if (isLong && isBent) {
+				this.subdivide(
+					evaluate,
+					t0,
+					p0,
+					tMid,
+					pMid,
+					depth - 1,
+					maxAngle,
+					minLength,
+				);
+				this.subdivide(
+					evaluate,
+					tMid,
+					pMid,
+					t1,
+					p1,
+					depth - 1,
+					maxAngle,
+					minLength,
+				);
+				return;
+			}
+		}
+
+		this.params.push(t1);
+		this.points.push(p1);
+	}
+}
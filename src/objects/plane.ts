@@ -1,7 +1,10 @@
 import { THREE, type Ctx } from "../index.ts";
 import { BasicObject } from "./index.ts";
+import type { SerializedObject } from "../serialization.ts";
 
 export class Plane extends BasicObject<THREE.PlaneGeometry> {
+	readonly typeName = "Plane";
+
 	constructor(ctx: Ctx, width: number, height: number) {
 		const geometry = new THREE.PlaneGeometry(width, height);
 		super(ctx, geometry);
@@ -27,6 +30,16 @@ export class Plane extends BasicObject<THREE.PlaneGeometry> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const params = this.mesh.geometry.parameters;
+		return {
+			type: "plane",
+			width: params.width,
+			height: params.height,
+			...this.serializeStyle(),
+		};
+	}
+
 	private reconstructGeometry(config: { width?: number; height?: number }) {
 		const params = this.mesh.geometry.parameters;
 		return new THREE.PlaneGeometry(
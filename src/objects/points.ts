@@ -1,16 +1,25 @@
 import { Ctx, THREE, type Vec3 } from "../index.ts";
 import { toVec3, vec3 } from "../vecUtils.ts";
-import { type RendererObject } from "./index.ts";
+import { SceneObject } from "./index.ts";
+import {
+	readColors,
+	toHexList,
+	toTuple,
+	type SerializedObject,
+} from "../serialization.ts";
 
 type PointsColor = THREE.ColorRepresentation | THREE.ColorRepresentation[];
 
-export class Points implements RendererObject<PointsColor> {
+export class Points extends SceneObject<PointsColor> {
+	readonly typeName = "Points";
+
 	/**
 	 * The underlying THREE.Points mesh representing the point cloud.
 	 */
 	mesh: THREE.Points;
 
 	constructor(ctx: Ctx, points: Vec3[]) {
+		super(ctx);
 		const vecPoints = points.map(toVec3);
 		const geometry = new THREE.BufferGeometry().setFromPoints(vecPoints);
 
@@ -84,6 +93,32 @@ export class Points implements RendererObject<PointsColor> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const pointCount = this.pointCount;
+		const points = [];
+		const alpha = [];
+		for (let i = 0; i < pointCount; i++) {
+			points.push(toTuple(this.getPosition(i)));
+			alpha.push(this.getAlpha(i));
+		}
+		const colors = readColors(
+			this.mesh.geometry.getAttribute("color"),
+			pointCount,
+		);
+
+		return {
+			type: "points",
+			points,
+			pointSize:
+				this.mesh.material instanceof THREE.PointsMaterial
+					? this.mesh.material.size
+					: 2,
+			color: toHexList(colors),
+			...(alpha.some((a) => a !== 1) ? { alpha } : {}),
+			...this.serializeStyle(),
+		};
+	}
+
 	/**
 	 * Gets the number of points in the point cloud.
 	 * @returns Number of points.
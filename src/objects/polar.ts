@@ -0,0 +1,181 @@
+import { THREE, vec2, type Ctx, type Vec3 } from "../index.ts";
+import { LineMaterial } from "three/addons/lines/LineMaterial.js";
+import { toVec3 } from "../vecUtils.ts";
+import { type LineStrip, SceneObject } from "./index.ts";
+
+type PolarGraphColor =
+	| THREE.ColorRepresentation
+	| ((theta: number, r: number) => THREE.ColorRepresentation);
+
+export class PolarGraph extends SceneObject<PolarGraphColor> {
+	readonly typeName = "PolarGraph";
+
+	/**
+	 * The Group mesh containing the line strips of the graph.
+	 */
+	mesh: THREE.Group;
+
+	/**
+	 * The underlying LineStrip meshes representing the graph. The graph is split into multiple line strips wherever the
+	 * function is undefined.
+	 */
+	linestrips: LineStrip[];
+
+	/**
+	 * The computed (theta, r) values of the graph, split into continuous segments. Each segment corresponds to the line
+	 * strip at the same index in `linestrips`.
+	 */
+	segments: THREE.Vector2[][];
+
+	constructor(
+		ctx: Ctx,
+		func: (theta: number) => number,
+		range?: [number, number],
+	) {
+		super(ctx);
+		const from = range !== undefined ? range[0] : 0;
+		const to = range !== undefined ? range[1] : Math.PI * 2;
+
+		if (from >= to) {
+			throw new Error("Invalid range: 'from' must be less than 'to'.");
+		}
+
+		// The curve is first sampled coarsely to find its largest radius. The final resolution is chosen so that there is
+		// approximately one point every 2 screen pixels along the outermost arc.
+		let maxRadius = 0;
+		const coarseCount = 256;
+		for (let i = 0; i <= coarseCount; i++) {
+			const r = func(from + (i / coarseCount) * (to - from));
+			if (isFinite(r)) maxRadius = Math.max(maxRadius, Math.abs(r));
+		}
+
+		const arcLength = (to - from) * maxRadius * ctx.pixelsPerUnit();
+		const pointCount = THREE.MathUtils.clamp(
+			Math.ceil(arcLength * 0.5),
+			coarseCount,
+			100000,
+		);
+
+		this.segments = [];
+		let current: THREE.Vector2[] = [];
+		let prevTheta = from;
+
+		for (let i = 0; i <= pointCount; i++) {
+			const theta = from + (i / pointCount) * (to - from);
+			const r = func(theta);
+
+			if (!isValid(r)) {
+				// Extend the segment up to where the function becomes undefined, so that it doesn't end a step early.
+				if (current.length > 0) {
+					current.push(refineEdge(func, prevTheta, theta));
+				}
+				if (current.length > 1) this.segments.push(current);
+				current = [];
+			} else {
+				if (current.length === 0 && i > 0) {
+					current.push(refineEdge(func, theta, prevTheta));
+				}
+				current.push(vec2(theta, r));
+			}
+
+			prevTheta = theta;
+		}
+		if (current.length > 1) this.segments.push(current);
+
+		this.mesh = new THREE.Group();
+		this.linestrips = [];
+		for (const segment of this.segments) {
+			const points = segment.map(({ x: theta, y: r }) =>
+				vec2(r * Math.cos(theta), r * Math.sin(theta)),
+			);
+			const line = ctx.lineStrip(points);
+			this.mesh.add(line.mesh);
+			this.linestrips.push(line);
+		}
+		ctx.spawn(this.mesh);
+	}
+
+	pos(position: Vec3): this {
+		this.mesh.position.copy(toVec3(position));
+		return this;
+	}
+
+	/**
+	 * Sets the color of the graph's line strips.
+	 * @param color A color or a function that returns a color based on the angle theta and the radius r at that angle.
+	 */
+	color(color: PolarGraphColor): this {
+		this.linestrips.forEach((line, i) => {
+			const colorInput =
+				typeof color === "function"
+					? this.segments[i]!.map(({ x: theta, y: r }) =>
+							color(theta, r),
+						)
+					: color;
+			line.color(colorInput);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the material of the graph's line strips.
+	 * @param material The LineMaterial to apply to the line strips.
+	 */
+	material(material: LineMaterial): this {
+		this.linestrips.forEach((line) => {
+			line.material(material);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the line width of the graph's line strips.
+	 * @param width The new line width.
+	 */
+	linewidth(width: number): this {
+		this.linestrips.forEach((line) => {
+			line.linewidth(width);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the graph's line strips to be dashed. If no parameters are provided, default values are used.
+	 * @param dashSize Size of the dashes.
+	 * @param gapSize Size of the gaps between dashes.
+	 */
+	dashed(dashSize?: number, gapSize?: number): this {
+		this.linestrips.forEach((line) => {
+			line.dashed(dashSize, gapSize);
+		});
+		return this;
+	}
+}
+
+const isValid = (r: number) => !isNaN(r) && isFinite(r);
+
+/**
+ * Finds the angle closest to an undefined angle at which the function is still defined, using bisection.
+ * @param func The function being graphed.
+ * @param valid An angle at which the function is defined.
+ * @param invalid An angle at which the function is undefined.
+ * @returns The (theta, r) value at the found angle.
+ */
+const refineEdge = (
+	func: (theta: number) => number,
+	valid: number,
+	invalid: number,
+) => {
+	let r = func(valid);
+	for (let i = 0; i < 30; i++) {
+		const mid = (valid + invalid) / 2;
+		const rMid = func(mid);
+		if (isValid(rMid)) {
+			valid = mid;
+			r = rMid;
+		} else {
+			invalid = mid;
+		}
+	}
+	return vec2(valid, r);
+};
@@ -1,10 +1,13 @@
 import { Ctx, THREE } from "../index.ts";
 import { BasicObject } from "./index.ts";
+import type { SerializedObject } from "../serialization.ts";
 
 /**
  * Class representing a 3D sphere object.
  */
 export class Sphere extends BasicObject<THREE.SphereGeometry> {
+	readonly typeName = "Sphere";
+
 	constructor(ctx: Ctx, radius: number) {
 		const geometry = new THREE.SphereGeometry(radius);
 		super(ctx, geometry);
@@ -34,6 +37,17 @@ export class Sphere extends BasicObject<THREE.SphereGeometry> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const params = this.mesh.geometry.parameters;
+		return {
+			type: "sphere",
+			radius: params.radius,
+			widthSegments: params.widthSegments,
+			heightSegments: params.heightSegments,
+			...this.serializeStyle(),
+		};
+	}
+
 	private reconstructGeometry(config: {
 		radius?: number;
 		widthSegments?: number;
@@ -0,0 +1,226 @@
+import { THREE, type Ctx, type Vec3 } from "../index.ts";
+import { LineMaterial } from "three/addons/lines/LineMaterial.js";
+import { toVec3 } from "../vecUtils.ts";
+import { type LineStrip, SceneObject } from "./index.ts";
+import type { VectorFieldFn } from "./vectorfield.ts";
+
+type StreamlinesColor =
+	| THREE.ColorRepresentation
+	| ((point: THREE.Vector3, magnitude: number) => THREE.ColorRepresentation);
+
+type StreamlinesConfig = {
+	/** Distance travelled along the field in each integration step. Defaults to 2 screen pixels at the current zoom. */
+	step?: number;
+	/** Maximum length of each streamline. Default is 500 screen pixels at the current zoom. */
+	maxLength?: number;
+	/** Whether to integrate forward along the field, backward, or both ways from each seed. Default is "forward". */
+	direction?: "forward" | "backward" | "both";
+	/** The time to evaluate the field at. Default is 0. */
+	time?: number;
+};
+
+/**
+ * Advances a point through a vector field by one fourth-order Runge-Kutta step.
+ * @param func The vector field.
+ * @param p The current position.
+ * @param t The current time.
+ * @param h The step size. When `normalized` is set, this is the distance travelled, otherwise it is the time step.
+ * @param normalized Whether to follow the direction of the field only, ignoring its magnitude.
+ * @returns The new position, or null if the field is zero or undefined along the step.
+ */
+export const rk4Step = (
+	func: VectorFieldFn,
+	p: THREE.Vector3,
+	t: number,
+	h: number,
+	normalized: boolean,
+) => {
+	const evaluate = (point: THREE.Vector3, time: number) => {
+		const v = toVec3(func(point.clone(), time)).clone();
+		if (normalized) {
+			const length = v.length();
+			if (length === 0) return null;
+			v.divideScalar(length);
+		}
+		return isFinite(v.x) && isFinite(v.y) && isFinite(v.z) ? v : null;
+	};
+
+	// A normalized step is a distance rather than a time step, so time does not advance within it.
+	const dt = normalized ? 0 : h;
+
+	const k1 = evaluate(p, t);
+	if (k1 === null) return null;
+	const k2 = evaluate(p.clone().addScaledVector(k1, h * 0.5), t + dt * 0.5);
+	if (k2 === null) return null;
+	const k3 = evaluate(p.clone().addScaledVector(k2, h * 0.5), t + dt * 0.5);
+	if (k3 === null) return null;
+	const k4 = evaluate(p.clone().addScaledVector(k3, h), t + dt);
+	if (k4 === null) return null;
+
+	return p
+		.clone()
+		.addScaledVector(k1, h / 6)
+		.addScaledVector(k2, h / 3)
+		.addScaledVector(k3, h / 3)
+		.addScaledVector(k4, h / 6);
+};
+
+export class Streamlines extends SceneObject<StreamlinesColor> {
+	readonly typeName = "Streamlines";
+
+	/**
+	 * The Group mesh containing all streamlines.
+	 */
+	mesh: THREE.Group;
+
+	/**
+	 * The line strips representing the streamlines. Seeds whose streamline has no length are skipped.
+	 */
+	linestrips: LineStrip[];
+
+	/**
+	 * The integrated points of each streamline. Each entry corresponds to the line strip at the same index in
+	 * `linestrips`.
+	 */
+	lines: THREE.Vector3[][];
+
+	/** The function describing the field. */
+	private func: VectorFieldFn;
+
+	/** The time the field is evaluated at. */
+	private time: number;
+
+	constructor(
+		ctx: Ctx,
+		func: VectorFieldFn,
+		seeds: Vec3[],
+		config?: StreamlinesConfig,
+	) {
+		super(ctx);
+		const {
+			step = 2 / ctx.pixelsPerUnit(),
+			maxLength = 500 / ctx.pixelsPerUnit(),
+			direction = "forward",
+			time = 0,
+		} = config ?? {};
+
+		if (step <= 0) {
+			throw new Error("Invalid step: must be greater than 0.");
+		}
+
+		this.func = func;
+		this.time = time;
+		this.lines = [];
+		this.linestrips = [];
+
+		for (const seed of seeds) {
+			const start = toVec3(seed).clone();
+			let line: THREE.Vector3[] = [start];
+
+			if (direction !== "forward") {
+				line = this.integrate(start, -step, maxLength).reverse();
+			}
+			if (direction !== "backward") {
+				line.push(...this.integrate(start, step, maxLength).slice(1));
+			}
+
+			if (line.length > 1) this.lines.push(line);
+		}
+
+		this.mesh = new THREE.Group();
+		for (const line of this.lines) {
+			const linestrip = ctx.lineStrip(line);
+			this.mesh.add(linestrip.mesh);
+			this.linestrips.push(linestrip);
+		}
+		ctx.spawn(this.mesh);
+	}
+
+	pos(position: Vec3): this {
+		this.mesh.position.copy(toVec3(position));
+		return this;
+	}
+
+	/**
+	 * Sets the color of the streamlines.
+	 * @param color A color or a function that returns a color based on a point of a streamline and the magnitude of the
+	 * field at that point.
+	 */
+	color(color: StreamlinesColor): this {
+		this.linestrips.forEach((linestrip, i) => {
+			const colorInput =
+				typeof color === "function"
+					? this.lines[i]!.map((point) => {
+							const v = toVec3(
+								this.func(point.clone(), this.time),
+							);
+							return color(point, v.length());
+						})
+					: color;
+			linestrip.color(colorInput);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the material of the streamlines.
+	 * @param material The LineMaterial to apply to the line strips.
+	 */
+	material(material: LineMaterial): this {
+		this.linestrips.forEach((linestrip) => {
+			linestrip.material(material);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the line width of the streamlines.
+	 * @param width The new line width.
+	 */
+	linewidth(width: number): this {
+		this.linestrips.forEach((linestrip) => {
+			linestrip.linewidth(width);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the streamlines to be dashed. If no parameters are provided, default values are used.
+	 * @param dashSize Size of the dashes.
+	 * @param gapSize Size of the gaps between dashes.
+	 */
+	dashed(dashSize?: number, gapSize?: number): this {
+		this.linestrips.forEach((linestrip) => {
+			linestrip.dashed(dashSize, gapSize);
+		});
+		return this;
+	}
+
+	/**
+	 * Integrates a streamline from the given start point until it reaches the maximum length or the field vanishes.
+	 * @param step The distance travelled per step. Negative values integrate backwards.
+	 * @returns The points of the streamline, including the start point.
+	 */
+	private integrate(start: THREE.Vector3, step: number, maxLength: number) {
+		const points = [start];
+		const stepCount = Math.ceil(maxLength / Math.abs(step));
+
+		let current = start;
+		let prevDelta: THREE.Vector3 | null = null;
+		for (let i = 0; i < stepCount; i++) {
+			const next = rk4Step(this.func, current, this.time, step, true);
+			if (next === null) break;
+
+			// Since steps have a fixed length, the integration keeps bouncing back and forth around a sink instead of
+			// coming to a halt. Stop as soon as the direction turns around.
+			const delta = next.clone().sub(current);
+			if (prevDelta !== null && delta.dot(prevDelta) < 0) break;
+
+			points.push(next);
+			current = next;
+			prevDelta = delta;
+		}
+
+		return points;
+	}
+}
@@ -0,0 +1,346 @@
+import { Ctx, THREE, type Vec2, type Vec3 } from "../index.ts";
+import { toVec2, toVec3, vec2 } from "../vecUtils.ts";
+import { type LineStrip, SceneObject } from "./index.ts";
+import type { LineStripColor } from "./linestrip.ts";
+
+type ParametricSurfaceColor =
+	| THREE.ColorRepresentation
+	| ((
+			x: number,
+			y: number,
+			z: number,
+			u: number,
+			v: number,
+	  ) => THREE.ColorRepresentation);
+
+export class ParametricSurface extends SceneObject<ParametricSurfaceColor> {
+	readonly typeName = "ParametricSurface";
+
+	/**
+	 * The Group mesh containing the surface and any grid lines.
+	 */
+	mesh: THREE.Group;
+
+	/**
+	 * The mesh representing the surface itself.
+	 */
+	surface: THREE.Mesh<THREE.BufferGeometry>;
+
+	/**
+	 * An array of line strips representing grid lines on the surface, if any were added.
+	 */
+	linestrips: LineStrip[];
+
+	/**
+	 * The computed (x, y, z) values of the surface, row by row along u for each v.
+	 */
+	values: THREE.Vector3[];
+
+	/** The function used to compute the surface points. */
+	private func: (u: number, v: number) => Vec3;
+
+	/** The range of the u parameter. */
+	private uRange: [number, number];
+
+	/** The range of the v parameter. */
+	private vRange: [number, number];
+
+	/** Number of segments along u and v. */
+	private segmentCount: THREE.Vector2;
+
+	/** The last color applied to the surface, re-applied when the geometry is rebuilt. */
+	private savedColor: ParametricSurfaceColor;
+
+	constructor(
+		ctx: Ctx,
+		func: (u: number, v: number) => Vec3,
+		uRange?: [number, number],
+		vRange?: [number, number],
+	) {
+		super(ctx);
+		this.func = func;
+		this.uRange = uRange ?? [0, Math.PI * 2];
+		this.vRange = vRange ?? [0, Math.PI * 2];
+
+		if (this.uRange[0] >= this.uRange[1]) {
+			throw new Error("Invalid u range: 'from' must be less than 'to'.");
+		}
+		if (this.vRange[0] >= this.vRange[1]) {
+			throw new Error("Invalid v range: 'from' must be less than 'to'.");
+		}
+
+		this.segmentCount = vec2(64, 64);
+		this.values = [];
+		this.linestrips = [];
+		this.savedColor = ctx.COLOR.FOREGROUND;
+
+		this.surface = new THREE.Mesh(
+			this.buildGeometry(),
+			new THREE.MeshBasicMaterial({
+				vertexColors: true,
+				side: THREE.DoubleSide,
+				color: new THREE.Color(0xffffff),
+			}),
+		);
+
+		this.mesh = new THREE.Group();
+		this.mesh.add(this.surface);
+		ctx.spawn(this.mesh);
+
+		this.color(this.savedColor);
+	}
+
+	pos(position: Vec3): this {
+		this.mesh.position.copy(toVec3(position));
+		return this;
+	}
+
+	/**
+	 * Sets the color of the surface.
+	 * @param color A color or a function that returns a color based on the x, y and z values of a vertex and the (u, v)
+	 * parameters it was computed from.
+	 */
+	color(color: ParametricSurfaceColor): this {
+		const pointCount = this.values.length;
+		const uPoints = this.segmentCount.x + 1;
+		const colorArray = new Float32Array(pointCount * 3);
+
+		for (let i = 0; i < pointCount; i++) {
+			let c: THREE.Color;
+			if (typeof color === "function") {
+				const p = this.values[i]!;
+				const u = this.getU(i % uPoints);
+				const v = this.getV(Math.floor(i / uPoints));
+				c = new THREE.Color(color(p.x, p.y, p.z, u, v));
+			} else {
+				c = new THREE.Color(color);
+			}
+			colorArray[i * 3] = c.r;
+			colorArray[i * 3 + 1] = c.g;
+			colorArray[i * 3 + 2] = c.b;
+		}
+
+		this.surface.geometry.setAttribute(
+			"color",
+			new THREE.Float32BufferAttribute(colorArray, 3),
+		);
+
+		this.savedColor = color;
+		return this;
+	}
+
+	/**
+	 * Sets the material of the surface.
+	 * @param material The material to apply.
+	 */
+	material(material: THREE.Material): this {
+		this.surface.material = material;
+		return this;
+	}
+
+	/**
+	 * Configures the surface to use a shaded material, keeping its vertex colors.
+	 */
+	shaded(): this {
+		this.material(
+			new THREE.MeshStandardMaterial({
+				vertexColors: true,
+				side: THREE.DoubleSide,
+				color: new THREE.Color(0xffffff),
+			}),
+		);
+		return this;
+	}
+
+	/**
+	 * Sets the number of segments along u and v. Rebuilds the surface geometry.
+	 * @param segments Number of segments along u and v. Default is 64 for both.
+	 */
+	segments(segments: Vec2): this {
+		const { x: uSeg, y: vSeg } = toVec2(segments);
+		this.segmentCount = vec2(uSeg, vSeg);
+		this.surface.geometry = this.buildGeometry();
+		this.color(this.savedColor);
+		return this;
+	}
+
+	/**
+	 * Adds a grid of iso-lines of constant u and constant v over the surface.
+	 * @param segments Number of segments in the grid along u and v.
+	 */
+	grid(segments?: Vec2): this {
+		if (this.linestrips.length !== 0) return this;
+
+		const defaultSegments = 10;
+		const { x: uGridSeg, y: vGridSeg } = toVec2(
+			segments ?? defaultSegments,
+		);
+		const { x: uSeg, y: vSeg } = this.segmentCount;
+
+		const offset = 1 / this.ctxRef.pixelsPerUnit();
+
+		for (let i = 0; i <= uGridSeg; i++) {
+			const u = this.lerpU(i / uGridSeg);
+			const points: Vec3[] = [];
+			for (let j = 0; j <= vSeg; j++) {
+				points.push(this.offsetPoint(u, this.getV(j), offset));
+			}
+			this.addGridLine(points);
+		}
+
+		for (let i = 0; i <= vGridSeg; i++) {
+			const v = this.lerpV(i / vGridSeg);
+			const points: Vec3[] = [];
+			for (let j = 0; j <= uSeg; j++) {
+				points.push(this.offsetPoint(this.getU(j), v, offset));
+			}
+			this.addGridLine(points);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Sets the color of all grid lines on the surface, if grid was added.
+	 * @param color A color or from/to gradient for the grid lines.
+	 */
+	gridColor(color: LineStripColor): this {
+		this.linestrips.forEach((line) => {
+			line.color(color);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets the line width of all grid lines on the surface, if grid was added.
+	 * @param width The new line width.
+	 */
+	linewidth(width: number): this {
+		this.linestrips.forEach((line) => {
+			line.linewidth(width);
+		});
+		return this;
+	}
+
+	/**
+	 * Sets all grid lines on the surface to be dashed, if grid was added. If no parameters are provided, default values are used.
+	 * @param dashSize Size of the dashes.
+	 * @param gapSize Size of the gaps between dashes.
+	 */
+	dashed(dashSize?: number, gapSize?: number): this {
+		this.linestrips.forEach((line) => {
+			line.dashed(dashSize, gapSize);
+		});
+		return this;
+	}
+
+	/**
+	 * Removes the surface, leaving only the grid lines if they were added.
+	 */
+	noSurface(): this {
+		this.mesh.remove(this.surface);
+		return this;
+	}
+
+	/**
+	 * Samples the surface function over the current segment counts and builds an indexed geometry with normals.
+	 */
+	private buildGeometry() {
+		const { x: uSeg, y: vSeg } = this.segmentCount;
+		const uPoints = uSeg + 1;
+		const vPoints = vSeg + 1;
+
+		this.values = new Array(uPoints * vPoints);
+		const positions = new Float32Array(uPoints * vPoints * 3);
+
+		for (let i = 0; i < vPoints; i++) {
+			const v = this.getV(i);
+			for (let j = 0; j < uPoints; j++) {
+				const u = this.getU(j);
+				const point = this.evaluate(u, v);
+
+				const index = i * uPoints + j;
+				this.values[index] = point;
+				positions[index * 3] = point.x;
+				positions[index * 3 + 1] = point.y;
+				positions[index * 3 + 2] = point.z;
+			}
+		}
+
+		const indices: number[] = [];
+		for (let i = 0; i < vSeg; i++) {
+			for (let j = 0; j < uSeg; j++) {
+				const a = i * uPoints + j;
+				const b = a + 1;
+				const c = a + uPoints;
+				const d = c + 1;
+				indices.push(a, c, b, b, c, d);
+			}
+		}
+
+		const geometry = new THREE.BufferGeometry();
+		geometry.setAttribute(
+			"position",
+			new THREE.Float32BufferAttribute(positions, 3),
+		);
+		geometry.setIndex(indices);
+		geometry.computeVertexNormals();
+
+		return geometry;
+	}
+
+	/** Adds a line strip to the grid. */
+	private addGridLine(points: Vec3[]) {
+		const line = this.ctxRef.lineStrip(points);
+		this.mesh.add(line.mesh);
+		this.linestrips.push(line);
+	}
+
+	/**
+	 * Returns the surface point at (u, v), pushed slightly along the surface normal so that grid lines are not hidden
+	 * by the surface itself.
+	 */
+	private offsetPoint(u: number, v: number, offset: number) {
+		const point = this.evaluate(u, v);
+
+		const du = (this.uRange[1] - this.uRange[0]) * 1e-4;
+		const dv = (this.vRange[1] - this.vRange[0]) * 1e-4;
+		const tangentU = this.evaluate(u + du, v).sub(point);
+		const tangentV = this.evaluate(u, v + dv).sub(point);
+		const normal = tangentU.cross(tangentV);
+
+		if (normal.lengthSq() === 0) return point;
+		return point.add(normal.normalize().multiplyScalar(offset));
+	}
+
+	/** Evaluates the surface function and validates the result. */
+	private evaluate(u: number, v: number) {
+		const point = toVec3(this.func(u, v)).clone();
+		if (!isFinite(point.x) || !isFinite(point.y) || !isFinite(point.z)) {
+			throw new Error(
+				`Surface function returned invalid value at (u=${u}, v=${v}): (${point.x}, ${point.y}, ${point.z})`,
+			);
+		}
+		return point;
+	}
+
+	/** Returns the u value of the given column. */
+	private getU(column: number) {
+		return this.lerpU(column / this.segmentCount.x);
+	}
+
+	/** Returns the v value of the given row. */
+	private getV(row: number) {
+		return this.lerpV(row / this.segmentCount.y);
+	}
+
+	/** Maps a factor between 0 and 1 to the u range. */
+	private lerpU(factor: number) {
+		return this.uRange[0] + factor * (this.uRange[1] - this.uRange[0]);
+	}
+
+	/** Maps a factor between 0 and 1 to the v range. */
+	private lerpV(factor: number) {
+		return this.vRange[0] + factor * (this.vRange[1] - this.vRange[0]);
+	}
+}
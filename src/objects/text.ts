@@ -2,8 +2,11 @@ import { defaultFont } from "../defaultFont.ts";
 import { THREE, type Ctx } from "../index.ts";
 import { BasicObject } from "./index.ts";
 import { FontLoader } from "three/addons/loaders/FontLoader.js";
+import type { SerializedObject } from "../serialization.ts";
 
 export class Text extends BasicObject<THREE.ShapeGeometry> {
+	readonly typeName = "Text";
+
 	/**  The previously saved string displayed by this object. */
 	private savedText: string;
 
@@ -13,6 +16,9 @@ export class Text extends BasicObject<THREE.ShapeGeometry> {
 	/** The previously saved direction of the text. */
 	private savedDirection: "ltr" | "rtl" | "tb";
 
+	/** Whether the text was made to face the camera. */
+	private billboarded: boolean;
+
 	constructor(ctx: Ctx, text: string) {
 		if (ctx.font === null) {
 			const loader = new FontLoader();
@@ -42,6 +48,7 @@ export class Text extends BasicObject<THREE.ShapeGeometry> {
 		this.savedText = text;
 		this.savedSize = 16;
 		this.savedDirection = "ltr";
+		this.billboarded = false;
 	}
 
 	/**
@@ -79,9 +86,26 @@ export class Text extends BasicObject<THREE.ShapeGeometry> {
 			rotate();
 		}
 
+		this.billboarded = true;
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const style = this.serializeStyle();
+		if (this.billboarded) {
+			// The rotation follows the camera, so it isn't part of the style.
+			delete style.rotation;
+		}
+		return {
+			type: "text",
+			text: this.savedText,
+			size: this.savedSize,
+			direction: this.savedDirection,
+			...(this.billboarded ? { billboard: true } : {}),
+			...style,
+		};
+	}
+
 	private reconstructGeometry(config: {
 		size?: number;
 		direction?: "ltr" | "rtl" | "tb";
@@ -1,7 +1,10 @@
 import { THREE, type Ctx } from "../index.ts";
 import { BasicObject } from "./index.ts";
+import type { SerializedObject } from "../serialization.ts";
 
 export class Torus extends BasicObject<THREE.TorusGeometry> {
+	readonly typeName = "Torus";
+
 	constructor(ctx: Ctx, radius: number, tubeRadius: number) {
 		const geometry = new THREE.TorusGeometry(radius, tubeRadius);
 		super(ctx, geometry);
@@ -45,6 +48,18 @@ export class Torus extends BasicObject<THREE.TorusGeometry> {
 		return this;
 	}
 
+	serialize(): SerializedObject {
+		const params = this.mesh.geometry.parameters;
+		return {
+			type: "torus",
+			radius: params.radius,
+			tubeRadius: params.tube,
+			radialSegments: params.radialSegments,
+			tubularSegments: params.tubularSegments,
+			...this.serializeStyle(),
+		};
+	}
+
 	private reconstructGeometry(config: {
 		radius?: number;
 		tubeRadius?: number;
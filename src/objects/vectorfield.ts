@@ -0,0 +1,345 @@
+import { THREE, type Ctx, type Vec3 } from "../index.ts";
+import { DIR, toVec3 } from "../vecUtils.ts";
+import { SceneObject } from "./index.ts";
+
+export type VectorFieldFn = (p: THREE.Vector3, t: number) => Vec3;
+
+type VectorFieldColor = THREE.ColorRepresentation;
+
+export class VectorField extends SceneObject<VectorFieldColor> {
+	readonly typeName = "VectorField";
+
+	/**
+	 * The Group mesh containing the instanced shafts and heads of all arrows.
+	 */
+	mesh: THREE.Group;
+
+	/** The instanced mesh rendering the shafts of all arrows. */
+	shafts: THREE.InstancedMesh;
+
+	/** The instanced mesh rendering the heads of all arrows. */
+	heads: THREE.InstancedMesh;
+
+	/** The positions the field is sampled at. */
+	samplePoints: THREE.Vector3[];
+
+	/** The field vectors at each sample point, as of the last evaluation. */
+	vectors: THREE.Vector3[];
+
+	/** The function describing the field. */
+	private func: VectorFieldFn;
+
+	/** The spacing between sample points. Used for default arrow lengths. */
+	private spacing: number;
+
+	/**
+	 * How arrow lengths are derived from the field magnitude.
+	 *   - `auto`: Arrows are scaled so that the longest one fits within the spacing.
+	 *   - `scale`: Arrow length is the magnitude multiplied by a fixed factor.
+	 *   - `normalize`: All arrows have the same length.
+	 */
+	private lengthMode: "auto" | "scale" | "normalize" = "auto";
+
+	/** The factor or fixed length used by the `scale` and `normalize` length modes. */
+	private lengthValue: number;
+
+	/** Radius of the arrow shafts. */
+	private shaftRadius: number;
+
+	/** Length of the arrow heads. */
+	private headLength: number;
+
+	/** Maps a normalized magnitude between 0 and 1 to a color, if colored by magnitude. */
+	private colormapFn: ((t: number) => THREE.ColorRepresentation) | null;
+
+	constructor(
+		ctx: Ctx,
+		func: VectorFieldFn,
+		bounds?: [Vec3, Vec3],
+		spacing?: number,
+	) {
+		super(ctx);
+		const defaultExtentHalf = 100 / ctx.pixelsPerUnit();
+		const min = toVec3(bounds?.[0] ?? -defaultExtentHalf);
+		const max = toVec3(bounds?.[1] ?? defaultExtentHalf);
+		const step = spacing ?? 20 / ctx.pixelsPerUnit();
+
+		if (step <= 0) {
+			throw new Error("Invalid spacing: must be greater than 0.");
+		}
+
+		this.func = func;
+		this.spacing = step;
+		this.lengthValue = step * 0.8;
+		this.shaftRadius = 1 / ctx.pixelsPerUnit();
+		this.headLength = 6 / ctx.pixelsPerUnit();
+		this.colormapFn = null;
+
+		// Bounds with equal min and max on an axis result in a single layer. 2D bounds (and the default bounds) have z = 0
+		// for both corners, which gives a 2D field in the XY plane.
+		this.samplePoints = [];
+		const count = max.clone().sub(min).divideScalar(step).floor();
+		for (let k = 0; k <= count.z; k++) {
+			for (let j = 0; j <= count.y; j++) {
+				for (let i = 0; i <= count.x; i++) {
+					this.samplePoints.push(
+						new THREE.Vector3(
+							min.x + i * step,
+							min.y + j * step,
+							min.z + k * step,
+						),
+					);
+				}
+			}
+		}
+		this.vectors = this.samplePoints.map(() => new THREE.Vector3());
+
+		// Unit geometries pointing along +Y with their base at the origin. Each instance is scaled and rotated into place.
+		const shaftGeometry = new THREE.CylinderGeometry(1, 1, 1, 8);
+		shaftGeometry.translate(0, 0.5, 0);
+		const headGeometry = new THREE.ConeGeometry(1, 1, 12);
+		headGeometry.translate(0, 0.5, 0);
+
+		const instanceCount = this.samplePoints.length;
+		this.shafts = new THREE.InstancedMesh(
+			shaftGeometry,
+			new THREE.MeshBasicMaterial({ color: 0xffffff }),
+			instanceCount,
+		);
+		this.heads = new THREE.InstancedMesh(
+			headGeometry,
+			new THREE.MeshBasicMaterial({ color: 0xffffff }),
+			instanceCount,
+		);
+
+		this.mesh = new THREE.Group();
+		this.mesh.add(this.shafts);
+		this.mesh.add(this.heads);
+
+		this.color(ctx.COLOR.FOREGROUND);
+		this.evaluate(0);
+
+		ctx.spawn(this.mesh);
+	}
+
+	pos(position: Vec3): this {
+		this.mesh.position.copy(toVec3(position));
+		return this;
+	}
+
+	/**
+	 * Sets a single color for all arrows. Overrides a previously set colormap.
+	 * @param color The color of the arrows.
+	 */
+	color(color: VectorFieldColor): this {
+		this.colormapFn = null;
+		const c = new THREE.Color(color);
+		for (let i = 0; i < this.samplePoints.length; i++) {
+			this.shafts.setColorAt(i, c);
+			this.heads.setColorAt(i, c);
+		}
+		this.markColorsDirty();
+		return this;
+	}
+
+	/**
+	 * Colors the arrows by the magnitude of the field. Magnitudes are normalized between the smallest and largest
+	 * magnitude in the field.
+	 * @param colormap (Optional) A function mapping a value between 0 and 1 to a color. Defaults to the context's heatmap.
+	 */
+	colormap(colormap?: (t: number) => THREE.ColorRepresentation): this {
+		this.colormapFn =
+			colormap ?? ((t: number) => this.ctxRef.COLOR.heatmap(t));
+		this.applyColormap();
+		return this;
+	}
+
+	/**
+	 * Sets the material of the arrows. The material should support instancing, e.g. any built-in mesh material.
+	 * @param material A THREE.Material instance.
+	 */
+	material(material: THREE.Material): this {
+		this.shafts.material = material;
+		this.heads.material = material;
+		return this;
+	}
+
+	/**
+	 * Scales the arrows by the magnitude of the field, so that an arrow's length is its magnitude multiplied by the given
+	 * factor.
+	 * @param factor The scale factor.
+	 */
+	scale(factor: number): this {
+		this.lengthMode = "scale";
+		this.lengthValue = factor;
+		this.updateInstances();
+		return this;
+	}
+
+	/**
+	 * Draws all arrows with the same length, regardless of the magnitude of the field.
+	 * @param length (Optional) The length of the arrows. Defaults to 80% of the spacing.
+	 */
+	normalize(length?: number): this {
+		this.lengthMode = "normalize";
+		this.lengthValue = length ?? this.spacing * 0.8;
+		this.updateInstances();
+		return this;
+	}
+
+	/**
+	 * Sets the thickness of the arrow shafts.
+	 * @param width The width of the shafts in screen pixels at the current zoom level.
+	 */
+	linewidth(width: number): this {
+		this.shaftRadius = (width * 0.5) / this.ctxRef.pixelsPerUnit();
+		this.updateInstances();
+		return this;
+	}
+
+	/**
+	 * Sets the length of the arrow heads. The head radius is scaled accordingly.
+	 * @param length The new head length.
+	 */
+	headSize(length: number): this {
+		this.headLength = length;
+		this.updateInstances();
+		return this;
+	}
+
+	/**
+	 * Re-evaluates the field at the given time and updates all arrows. Only instance transforms and colors are updated,
+	 * so this is cheap enough to call every frame.
+	 * ### Example
+	 * ```js
+	 * const field = ctx.vectorField((p, t) => [Math.sin(p.y / 20 + t), Math.cos(p.x / 20 + t)]);
+	 *
+	 * ctx.update((dt, elapsed) => field.evaluate(elapsed));
+	 * ```
+	 * @param time The time to pass to the field function.
+	 */
+	evaluate(time: number): this {
+		for (let i = 0; i < this.samplePoints.length; i++) {
+			const point = this.samplePoints[i]!;
+			this.vectors[i]!.copy(toVec3(this.func(point.clone(), time)));
+		}
+		this.updateInstances();
+		if (this.colormapFn !== null) this.applyColormap();
+		return this;
+	}
+
+	/**
+	 * Re-evaluates the field on every frame with the elapsed time, animating time-dependent fields. Inside an update
+	 * function, call {@link evaluate} with the elapsed time instead. To animate the position, color, scale or opacity,
+	 * use {@link animate} like with any other object.
+	 */
+	animateField(): this {
+		if (this.ctxRef.__getMode() === "RETAINED") {
+			this.ctxRef.update((_dt, elapsed) => this.evaluate(elapsed));
+		}
+		return this;
+	}
+
+	/**
+	 * Recomputes the instance transforms of all arrows from the current field vectors.
+	 */
+	private updateInstances() {
+		let maxMagnitude = 0;
+		for (const vector of this.vectors) {
+			maxMagnitude = Math.max(maxMagnitude, vector.length());
+		}
+
+		const matrix = new THREE.Matrix4();
+		const rotation = new THREE.Quaternion();
+		const position = new THREE.Vector3();
+		const scale = new THREE.Vector3();
+		const dir = new THREE.Vector3();
+
+		for (let i = 0; i < this.samplePoints.length; i++) {
+			const vector = this.vectors[i]!;
+			const magnitude = vector.length();
+
+			let length: number;
+			if (this.lengthMode === "scale") {
+				length = magnitude * this.lengthValue;
+			} else if (this.lengthMode === "normalize") {
+				length = magnitude > 0 ? this.lengthValue : 0;
+			} else {
+				length =
+					maxMagnitude > 0
+						? (magnitude / maxMagnitude) * this.lengthValue
+						: 0;
+			}
+
+			if (length === 0 || !isFinite(length)) {
+				matrix.makeScale(0, 0, 0);
+				this.shafts.setMatrixAt(i, matrix);
+				this.heads.setMatrixAt(i, matrix);
+				continue;
+			}
+
+			dir.copy(vector).divideScalar(magnitude);
+			rotation.setFromUnitVectors(DIR.Y, dir);
+
+			const headLength = Math.min(this.headLength, length * 0.5);
+			const shaftLength = length - headLength;
+
+			// Arrows are centered on their sample point.
+			position
+				.copy(this.samplePoints[i]!)
+				.addScaledVector(dir, -length * 0.5);
+
+			scale.set(this.shaftRadius, shaftLength, this.shaftRadius);
+			matrix.compose(position, rotation, scale);
+			this.shafts.setMatrixAt(i, matrix);
+
+			position.addScaledVector(dir, shaftLength);
+			const headRadius = headLength * 0.5;
+			scale.set(headRadius, headLength, headRadius);
+			matrix.compose(position, rotation, scale);
+			this.heads.setMatrixAt(i, matrix);
+		}
+
+		this.shafts.instanceMatrix.needsUpdate = true;
+		this.heads.instanceMatrix.needsUpdate = true;
+		this.shafts.computeBoundingSphere();
+		this.heads.computeBoundingSphere();
+	}
+
+	/**
+	 * Colors the arrows by magnitude using the current colormap.
+	 */
+	private applyColormap() {
+		if (this.colormapFn === null) return;
+
+		const magnitudes = this.vectors.map((v) => v.length());
+		let min = Number.POSITIVE_INFINITY;
+		let max = 0;
+		for (const magnitude of magnitudes) {
+			min = Math.min(min, magnitude);
+			max = Math.max(max, magnitude);
+		}
+		const range = max - min;
+
+		const c = new THREE.Color();
+		magnitudes.forEach((magnitude, i) => {
+			const t = range > 0 ? (magnitude - min) / range : 0;
+			c.set(this.colormapFn!(t));
+			this.shafts.setColorAt(i, c);
+			this.heads.setColorAt(i, c);
+		});
+		this.markColorsDirty();
+	}
+
+	/**
+	 * Flags the instance colors for upload to the GPU.
+	 */
+	private markColorsDirty() {
+		if (this.shafts.instanceColor !== null) {
+			this.shafts.instanceColor.needsUpdate = true;
+		}
+		if (this.heads.instanceColor !== null) {
+			this.heads.instanceColor.needsUpdate = true;
+		}
+	}
+}
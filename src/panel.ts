@@ -0,0 +1,184 @@
+import type { Theme } from "./colorUtils.ts";
+
+/** The corner of the renderer a panel is placed in. */
+export type PanelPosition =
+	"top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+type PanelConfig = {
+	/** The corner to place the panel in. Default is "top-right". */
+	position?: PanelPosition;
+	/** The title shown in the header of the panel. Default is "Controls". */
+	title?: string;
+	/** Whether the header has a button to hide and show the controls. Default is true. */
+	collapsible?: boolean;
+	/** Whether the controls start out hidden. Only applies to collapsible panels. Default is false. */
+	collapsed?: boolean;
+};
+
+/** Something that can be placed in a panel: a DOM element, or a control with a container, like a slider. */
+export type PanelItem = HTMLElement | { container: HTMLElement | null };
+
+/**
+ * Base class of panels and folders, holding a list of controls.
+ */
+abstract class ControlGroup {
+	/** The element the controls are placed in. */
+	protected readonly content: HTMLDivElement;
+
+	constructor(ownerDocument: Document) {
+		this.content = ownerDocument.createElement("div");
+		this.content.classList.add("renderer-panel-content");
+	}
+
+	/**
+	 * Moves an element or a control into this group, after the controls that were added before. Controls can also be
+	 * created in a group directly with the `panel` option of the context's control functions.
+	 * @param item A DOM element, or a control created by the context, like a slider or a button.
+	 * @returns The same control, so it can be created and added in one go.
+	 */
+	add<Item extends PanelItem>(item: Item): Item {
+		// Controls are told apart by their container, since HTMLElement doesn't exist outside of browsers.
+		const element =
+			"container" in item
+				? (item as { container: HTMLElement | null }).container
+				: (item as HTMLElement);
+		if (element !== null) {
+			this.content.appendChild(element);
+		}
+		return item;
+	}
+
+	/**
+	 * Creates a folder inside this group, which groups controls under a title and can be opened and closed.
+	 * @param title The title of the folder.
+	 * @param config (Optional) Whether the folder starts out open. Default is true.
+	 * @returns The created {@link Folder}.
+	 */
+	folder(title: string, config?: { open?: boolean }): Folder {
+		const folder = new Folder(
+			this.content.ownerDocument,
+			title,
+			config?.open ?? true,
+		);
+		this.content.appendChild(folder.element);
+		return folder;
+	}
+}
+
+/**
+ * A titled group of controls inside a panel or another folder, which can be opened and closed by clicking its title.
+ * Created with {@link Panel.folder}.
+ */
+export class Folder extends ControlGroup {
+	/** The element of the folder, containing the title and the controls. */
+	readonly element: HTMLDetailsElement;
+
+	constructor(ownerDocument: Document, title: string, open: boolean) {
+		super(ownerDocument);
+
+		this.element = ownerDocument.createElement("details");
+		this.element.classList.add("renderer-panel-folder");
+		this.element.open = open;
+
+		const summary = ownerDocument.createElement("summary");
+		summary.textContent = title;
+		this.element.append(summary, this.content);
+	}
+
+	/** Whether the folder is open. */
+	get open() {
+		return this.element.open;
+	}
+
+	/**
+	 * Opens or closes the folder.
+	 * @param open (Optional) Whether to open the folder. Toggles it by default.
+	 */
+	toggle(open = !this.open): this {
+		this.element.open = open;
+		return this;
+	}
+}
+
+/**
+ * A box in a corner of the renderer that holds controls, so they don't cover the scene. Its content scrolls if it is
+ * taller than the renderer. Created with {@link Ctx.panel}.
+ * ### Example
+ * ```js
+ * const panel = ctx.panel({ position: "top-right", title: "Settings" });
+ * const radius = ctx.slider("Radius", 1, 100, null, { panel });
+ *
+ * const camera = panel.folder("Camera");
+ * ctx.checkbox("Orbit", true, undefined, { panel: camera });
+ * ctx.button("Reset", () => ctx.zoom(1), { panel: camera });
+ *
+ * // Elements created elsewhere are moved into the panel.
+ * panel.add(document.createElement("hr"));
+ * ```
+ */
+export class Panel extends ControlGroup {
+	/** The element of the panel, containing the header and the controls. */
+	readonly element: HTMLDivElement;
+
+	/** The button that hides and shows the controls, if the panel is collapsible. */
+	private readonly toggleButton: HTMLButtonElement | null;
+
+	constructor(wrapper: HTMLDivElement, theme: Theme, config?: PanelConfig) {
+		super(wrapper.ownerDocument);
+		const { ownerDocument } = wrapper;
+
+		this.element = ownerDocument.createElement("div");
+		this.element.classList.add(
+			"renderer-panel",
+			config?.position ?? "top-right",
+		);
+		if (theme === "dark") {
+			this.element.classList.add("dark");
+		}
+
+		const header = ownerDocument.createElement("div");
+		header.classList.add("renderer-panel-header");
+		const title = ownerDocument.createElement("span");
+		title.textContent = config?.title ?? "Controls";
+		header.appendChild(title);
+
+		this.toggleButton = null;
+		if (config?.collapsible ?? true) {
+			this.toggleButton = ownerDocument.createElement("button");
+			this.toggleButton.onclick = () => this.toggle();
+			header.appendChild(this.toggleButton);
+		}
+
+		this.element.append(header, this.content);
+		wrapper.appendChild(this.element);
+
+		// Keeps the orbit controls, which listen on the wrapper, from moving the camera while the panel is used or
+		// scrolled.
+		for (const type of ["pointerdown", "wheel"]) {
+			this.element.addEventListener(type, (event) =>
+				event.stopPropagation(),
+			);
+		}
+
+		this.toggle(
+			!(config?.collapsed ?? false) || this.toggleButton === null,
+		);
+	}
+
+	/** Whether the controls are shown. */
+	get visible() {
+		return !this.content.hidden;
+	}
+
+	/**
+	 * Shows or hides the controls. The header stays visible, so they can be shown again.
+	 * @param visible (Optional) Whether to show the controls. Toggles them by default.
+	 */
+	toggle(visible = !this.visible): this {
+		this.content.hidden = !visible;
+		if (this.toggleButton !== null) {
+			this.toggleButton.textContent = visible ? "Hide" : "Show";
+		}
+		return this;
+	}
+}
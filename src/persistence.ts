@@ -0,0 +1,265 @@
+import type { Ctx } from "./index.ts";
+import { isRecord } from "./serialization.ts";
+
+/** The value of a control, as saved in the state. */
+export type ControlValue = number | boolean | string | number[];
+
+/** A control whose value can be saved and restored. */
+export type PersistentControl = {
+	/** Returns the current value. */
+	value: () => ControlValue;
+	/** Sets the value and notifies the listeners of the control, as if the user had changed it. */
+	restore: (value: ControlValue) => void;
+};
+
+/** Where the state is kept, like the URL hash or local storage. */
+export type StateStorage = {
+	/** Returns the saved state, or null if nothing was saved yet. */
+	load: () => string | null;
+	/** Saves the state, replacing the previous one. */
+	save: (state: string) => void;
+};
+
+export type PersistOptions = {
+	/** Where to keep the state. Defaults to the URL hash, see {@link hashStorage}. */
+	storage?: StateStorage;
+	/** Whether to also save the position, orientation, zoom and orbit target of the camera. Default is false. */
+	camera?: boolean;
+};
+
+type CameraState = {
+	position: [number, number, number];
+	quaternion: [number, number, number, number];
+	scale: [number, number, number];
+	zoom: number;
+	target?: [number, number, number];
+};
+
+type SavedState = {
+	controls: Record<string, ControlValue>;
+	camera?: CameraState;
+};
+
+/** Time in milliseconds to wait after the last change before saving, so that dragging doesn't flood the storage. */
+const SAVE_DELAY = 250;
+
+/**
+ * Returns a storage that keeps the state in a parameter of the URL hash, so that it is part of shared links. The
+ * history isn't changed, so the back button still leaves the page.
+ * ### Example
+ * ```js
+ * // Two renderers on the same page need different parameters.
+ * new Renderer(setupA, { persist: { storage: hashStorage("a") } });
+ * new Renderer(setupB, { persist: { storage: hashStorage("b") } });
+ * ```
+ * @param name (Optional) The name of the hash parameter. Default is "state".
+ */
+export const hashStorage = (name = "state"): StateStorage => ({
+	load: () => {
+		const params = new URLSearchParams(window.location.hash.slice(1));
+		return params.get(name);
+	},
+	save: (state) => {
+		const params = new URLSearchParams(window.location.hash.slice(1));
+		params.set(name, state);
+		const url = new URL(window.location.href);
+		url.hash = params.toString();
+		window.history.replaceState(window.history.state, "", url);
+	},
+});
+
+/**
+ * Saves the values of the controls of a context, and optionally its camera, whenever the user interacts with the
+ * renderer, and restores them when created.
+ */
+export class StatePersistence {
+	/** The context whose state is saved. */
+	private readonly ctx: Ctx;
+
+	/** The element whose events trigger saving. */
+	private readonly element: HTMLElement;
+
+	/** Where the state is kept. */
+	private readonly storage: StateStorage;
+
+	/** Whether the camera is part of the state. */
+	private readonly camera: boolean;
+
+	/** The state that was saved last, to skip saving when nothing changed. */
+	private savedState: string | null;
+
+	/** The pending save, if any. */
+	private timeout: ReturnType<typeof setTimeout> | null;
+
+	constructor(ctx: Ctx, element: HTMLElement, options: PersistOptions) {
+		this.ctx = ctx;
+		this.element = element;
+		this.storage = options.storage ?? hashStorage();
+		this.camera = options.camera ?? false;
+		this.savedState = null;
+		this.timeout = null;
+
+		this.restore();
+
+		// Control events bubble up to the element, and orbiting or zooming ends with a pointer or wheel event.
+		for (const type of ["input", "change", "pointerup", "wheel"]) {
+			element.addEventListener(type, this.scheduleSave);
+		}
+	}
+
+	/**
+	 * Removes the event listeners. Pending changes are saved right away.
+	 */
+	dispose() {
+		for (const type of ["input", "change", "pointerup", "wheel"]) {
+			this.element.removeEventListener(type, this.scheduleSave);
+		}
+		if (this.timeout !== null) {
+			clearTimeout(this.timeout);
+			this.save();
+		}
+	}
+
+	/**
+	 * Applies the saved state. Saved state that isn't valid JSON or doesn't have the shape of a state is ignored, like
+	 * values of controls that no longer exist or changed their type.
+	 */
+	private restore() {
+		const saved = this.storage.load();
+		if (saved === null) return;
+
+		let state: unknown;
+		try {
+			state = JSON.parse(saved);
+		} catch {
+			return;
+		}
+		if (!isSavedState(state)) return;
+		this.savedState = saved;
+
+		const controls = this.ctx.__getControls();
+		for (const [key, value] of Object.entries(state.controls)) {
+			const control = controls.get(key);
+			if (
+				control !== undefined &&
+				isControlValue(value) &&
+				Array.isArray(control.value()) === Array.isArray(value) &&
+				typeof control.value() === typeof value
+			) {
+				control.restore(value);
+			}
+		}
+
+		if (this.camera && state.camera !== undefined) {
+			this.restoreCamera(state.camera);
+		}
+	}
+
+	/**
+	 * Moves the camera to the saved position and orientation.
+	 */
+	private restoreCamera(state: CameraState) {
+		const camera = this.ctx.camera;
+		camera.position.fromArray(state.position);
+		camera.quaternion.fromArray(state.quaternion);
+		camera.scale.fromArray(state.scale);
+		camera.zoom = state.zoom;
+		camera.updateProjectionMatrix();
+
+		const orbitControls = this.ctx.__getOrbitControls();
+		if (orbitControls !== null && state.target !== undefined) {
+			orbitControls.target.fromArray(state.target);
+			orbitControls.update();
+		}
+	}
+
+	/**
+	 * Returns the current state as a JSON string.
+	 */
+	private serialize() {
+		const state: SavedState = { controls: {} };
+		for (const [key, control] of this.ctx.__getControls()) {
+			state.controls[key] = control.value();
+		}
+
+		if (this.camera) {
+			const camera = this.ctx.camera;
+			const target = this.ctx.__getOrbitControls()?.target;
+			state.camera = {
+				position: camera.position.toArray(),
+				quaternion:
+					camera.quaternion.toArray() as CameraState["quaternion"],
+				scale: camera.scale.toArray(),
+				zoom: camera.zoom,
+				...(target !== undefined ? { target: target.toArray() } : {}),
+			};
+		}
+		return JSON.stringify(state);
+	}
+
+	/**
+	 * Saves the state after a short delay, restarting the delay on every call.
+	 */
+	private scheduleSave = () => {
+		if (this.timeout !== null) clearTimeout(this.timeout);
+		this.timeout = setTimeout(() => {
+			this.timeout = null;
+			this.save();
+		}, SAVE_DELAY);
+	};
+
+	/**
+	 * Saves the state if it changed since it was last saved.
+	 */
+	private save() {
+		const state = this.serialize();
+		if (state !== this.savedState) {
+			this.storage.save(state);
+			this.savedState = state;
+		}
+	}
+}
+
+/** Returns whether a value is an array of the given number of finite numbers. */
+const isTuple = (value: unknown, length: number): value is number[] =>
+	Array.isArray(value) &&
+	value.length === length &&
+	value.every((item) => Number.isFinite(item));
+
+/** Returns whether a value has the type of a control value. Its type is checked against the control separately. */
+const isControlValue = (value: unknown): value is ControlValue =>
+	typeof value === "number" ||
+	typeof value === "boolean" ||
+	typeof value === "string" ||
+	(Array.isArray(value) && value.every((item) => typeof item === "number"));
+
+/** Returns whether a value is a camera state with all fields of the right shape. */
+const isCameraState = (value: unknown): value is CameraState =>
+	isRecord(value) &&
+	isTuple(value.position, 3) &&
+	isTuple(value.quaternion, 4) &&
+	isTuple(value.scale, 3) &&
+	typeof value.zoom === "number" &&
+	value.zoom > 0 &&
+	(value.target === undefined || isTuple(value.target, 3));
+
+/**
+ * Returns whether a parsed value has the shape of a saved state. Unknown keys are allowed, and the values of the
+ * controls are checked one by one when they are restored.
+ */
+const isSavedState = (value: unknown): value is SavedState =>
+	isRecord(value) &&
+	isRecord(value.controls) &&
+	(value.camera === undefined || isCameraState(value.camera));
+
+/**
+ * Returns a key for a control from its label, like "line-width" for "Line Width", or the fallback if the label
+ * contains no letters or digits.
+ */
+export const toControlKey = (label: string | null, fallback: string) => {
+	const key = (label ?? "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+	return key !== "" ? key : fallback;
+};
@@ -0,0 +1,339 @@
+import { THREE, type Ctx } from "./index.ts";
+
+export type PickEvent = {
+	/** The point where the pointer ray hits the object, in world coordinates. Always (0, 0, 0) for leave events. */
+	point: THREE.Vector3;
+	/** The index of the point that was hit if the object is a point cloud, otherwise null. */
+	index: number | null;
+	/**
+	 * The THREE.js object that was hit. For composite objects, this is the child that was hit. For leave events, this
+	 * is the object that was left.
+	 */
+	object: THREE.Object3D;
+	/** The DOM event that triggered the handler. */
+	event: MouseEvent;
+};
+
+export type PickHandler = (event: PickEvent) => void;
+
+type PickEventType = "click" | "hover" | "leave";
+
+type PickHandlers = Record<PickEventType, PickHandler[]>;
+
+/** Callbacks of a draggable object. See {@link Picker.draggable}. */
+export type DragHandlers = {
+	/** Called when the object is pressed, with the ray through the pointer. */
+	start: (ray: THREE.Ray) => void;
+	/** Called on every pointer move while the object is dragged, with the ray through the pointer. */
+	move: (ray: THREE.Ray) => void;
+	/** Called when the object is released. */
+	end: () => void;
+};
+
+/** Distance in screen pixels within which lines and points are still hit by the pointer. */
+const PICK_TOLERANCE = 4;
+
+/** Distance in screen pixels the pointer may move between pressing and releasing for it to count as a click. */
+const CLICK_TOLERANCE = 4;
+
+/**
+ * The registered handlers of each object. A WeakMap is used so that removed objects don't have to be unregistered.
+ */
+const handlerMap = new WeakMap<THREE.Object3D, PickHandlers>();
+
+/** The drag handlers of each draggable object. */
+const dragMap = new WeakMap<THREE.Object3D, DragHandlers>();
+
+/**
+ * Registers a handler for a pointer event on the given object. The handler is also called when a descendant of the
+ * object is hit, which makes it work for composite objects.
+ */
+export const addPickHandler = (
+	object: THREE.Object3D,
+	type: PickEventType,
+	handler: PickHandler,
+) => {
+	let handlers = handlerMap.get(object);
+	if (handlers === undefined) {
+		handlers = { click: [], hover: [], leave: [] };
+		handlerMap.set(object, handlers);
+	}
+	handlers[type].push(handler);
+};
+
+/**
+ * Raycasts pointer events on the renderer's canvas against objects with registered handlers and calls the handlers.
+ */
+export class Picker {
+	/** Reference to the rendering context. */
+	private readonly ctxRef: Ctx;
+
+	/** Reference to the scene. */
+	private readonly sceneRef: THREE.Scene;
+
+	/** Reference to the wrapper div, which receives the pointer events. */
+	private readonly wrapperRef: HTMLDivElement;
+
+	/** The raycaster used for picking. */
+	private readonly raycaster: THREE.Raycaster;
+
+	/** The objects the pointer is currently over, from the hit object up to its outermost registered ancestor. */
+	private hovered: THREE.Object3D[];
+
+	/** The position of the last pointerdown event, used to tell clicks apart from drags. */
+	private downPosition: THREE.Vector2 | null;
+
+	/** The handlers of the object that is currently being dragged, if any. */
+	private dragged: DragHandlers | null;
+
+	constructor(ctx: Ctx, scene: THREE.Scene, wrapper: HTMLDivElement) {
+		this.ctxRef = ctx;
+		this.sceneRef = scene;
+		this.wrapperRef = wrapper;
+		this.raycaster = new THREE.Raycaster();
+		this.hovered = [];
+		this.downPosition = null;
+		this.dragged = null;
+
+		wrapper.addEventListener("pointermove", this.onPointerMove);
+		wrapper.addEventListener("pointerleave", this.onPointerLeave);
+		wrapper.addEventListener("pointerdown", this.onPointerDown);
+		wrapper.addEventListener("click", this.onClick);
+	}
+
+	/**
+	 * Removes all event listeners.
+	 */
+	dispose() {
+		this.wrapperRef.removeEventListener("pointermove", this.onPointerMove);
+		this.wrapperRef.removeEventListener(
+			"pointerleave",
+			this.onPointerLeave,
+		);
+		this.wrapperRef.removeEventListener("pointerdown", this.onPointerDown);
+		this.wrapperRef.removeEventListener("click", this.onClick);
+		this.endDrag();
+	}
+
+	/**
+	 * Makes the given object draggable with the mouse or touch. While an object is dragged, orbit controls are
+	 * disabled so that the camera doesn't move.
+	 * @param object The object to make draggable. Pressing any of its descendants also starts dragging.
+	 * @param handlers Callbacks for the start, movement and end of a drag.
+	 */
+	draggable(object: THREE.Object3D, handlers: DragHandlers) {
+		dragMap.set(object, handlers);
+
+		// Prevents touch gestures from scrolling the page instead of dragging.
+		this.wrapperRef.style.touchAction = "none";
+	}
+
+	/**
+	 * Returns the ray from the camera through the position of the pointer.
+	 */
+	ray(event: MouseEvent) {
+		this.setRaycaster(event);
+		return this.raycaster.ray.clone();
+	}
+
+	/**
+	 * Returns the closest hit of the pointer with an object that has registered handlers, or null if there is none.
+	 * Events on DOM elements in the wrapper, like buttons, never hit anything.
+	 */
+	pick(event: MouseEvent) {
+		if (
+			event.target !== this.wrapperRef &&
+			!(event.target instanceof HTMLCanvasElement)
+		) {
+			return null;
+		}
+
+		const roots: THREE.Object3D[] = [];
+		this.sceneRef.traverseVisible((object) => {
+			if (handlerMap.has(object) || dragMap.has(object)) {
+				roots.push(object);
+			}
+		});
+		if (roots.length === 0) return null;
+
+		this.setRaycaster(event);
+
+		// Roots can be nested, so the same object may be hit more than once. The closest hit is the first one.
+		const hit = this.raycaster.intersectObjects(roots, true)[0];
+		return hit ?? null;
+	}
+
+	/**
+	 * Sets up the raycaster to cast a ray from the camera through the position of the pointer.
+	 */
+	private setRaycaster(event: MouseEvent) {
+		const bounds = this.wrapperRef.getBoundingClientRect();
+		const ndc = new THREE.Vector2(
+			((event.clientX - bounds.left) / bounds.width) * 2 - 1,
+			-((event.clientY - bounds.top) / bounds.height) * 2 + 1,
+		);
+
+		const camera = this.ctxRef.camera;
+		const pixelsPerUnit = this.ctxRef.pixelsPerUnit();
+		this.raycaster.setFromCamera(ndc, camera);
+		this.raycaster.params.Line2 = { threshold: PICK_TOLERANCE };
+		this.raycaster.params.Line.threshold = PICK_TOLERANCE / pixelsPerUnit;
+		this.raycaster.params.Points.threshold = PICK_TOLERANCE / pixelsPerUnit;
+	}
+
+	/**
+	 * Returns the objects with registered handlers along the path from the given object up to the scene.
+	 */
+	private registeredAncestors(object: THREE.Object3D) {
+		const ancestors: THREE.Object3D[] = [];
+		let current: THREE.Object3D | null = object;
+		while (current !== null) {
+			if (handlerMap.has(current)) ancestors.push(current);
+			current = current.parent;
+		}
+		return ancestors;
+	}
+
+	/**
+	 * Calls the handlers of the given type of each object, using the given hit for the event data.
+	 */
+	private dispatch(
+		objects: THREE.Object3D[],
+		type: PickEventType,
+		hit: THREE.Intersection | null,
+		event: MouseEvent,
+	) {
+		for (const object of objects) {
+			const handlers = handlerMap.get(object)?.[type] ?? [];
+			for (const handler of handlers) {
+				handler({
+					point: hit?.point.clone() ?? new THREE.Vector3(),
+					index:
+						hit !== null && hit.object instanceof THREE.Points
+							? (hit.index ?? null)
+							: null,
+					object: hit?.object ?? object,
+					event,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Updates the hovered objects, calling leave handlers for objects the pointer left and hover handlers for objects
+	 * the pointer entered.
+	 */
+	private setHovered(hit: THREE.Intersection | null, event: MouseEvent) {
+		const hovered =
+			hit !== null ? this.registeredAncestors(hit.object) : [];
+
+		const left = this.hovered.filter((object) => !hovered.includes(object));
+		const entered = hovered.filter(
+			(object) => !this.hovered.includes(object),
+		);
+		this.hovered = hovered;
+
+		this.dispatch(left, "leave", null, event);
+		this.dispatch(entered, "hover", hit, event);
+
+		const isClickable = hovered.some(
+			(object) => handlerMap.get(object)!.click.length > 0,
+		);
+		this.wrapperRef.classList.toggle("clickable", isClickable);
+		this.wrapperRef.classList.toggle(
+			"draggable",
+			hit !== null && this.draggableAncestor(hit.object) !== null,
+		);
+	}
+
+	/**
+	 * Returns the drag handlers of the closest draggable object along the path from the given object up to the scene.
+	 */
+	private draggableAncestor(object: THREE.Object3D) {
+		let current: THREE.Object3D | null = object;
+		while (current !== null) {
+			const handlers = dragMap.get(current);
+			if (handlers !== undefined) return handlers;
+			current = current.parent;
+		}
+		return null;
+	}
+
+	/**
+	 * Ends the current drag, if any, and re-enables orbit controls.
+	 */
+	private endDrag() {
+		if (this.dragged === null) return;
+
+		window.removeEventListener("pointermove", this.onDragMove);
+		window.removeEventListener("pointerup", this.onDragEnd);
+		window.removeEventListener("pointercancel", this.onDragEnd);
+
+		const dragged = this.dragged;
+		this.dragged = null;
+		this.wrapperRef.classList.remove("dragging");
+		this.ctxRef.__setOrbitEnabled(true);
+		dragged.end();
+	}
+
+	private onPointerMove = (event: PointerEvent) => {
+		if (this.dragged !== null) return;
+		this.setHovered(this.pick(event), event);
+	};
+
+	private onPointerLeave = (event: PointerEvent) => {
+		this.setHovered(null, event);
+	};
+
+	private onPointerDown = (event: PointerEvent) => {
+		this.downPosition = new THREE.Vector2(event.clientX, event.clientY);
+
+		if (event.button !== 0 || this.dragged !== null) return;
+
+		const hit = this.pick(event);
+		const dragged =
+			hit !== null ? this.draggableAncestor(hit.object) : null;
+		if (dragged === null) return;
+
+		// This listener is added before orbit controls are created, so disabling them here keeps them from reacting to
+		// this event.
+		this.ctxRef.__setOrbitEnabled(false);
+		this.dragged = dragged;
+		this.wrapperRef.classList.add("dragging");
+
+		// Moves are tracked on the window, so that dragging continues when the pointer leaves the renderer.
+		window.addEventListener("pointermove", this.onDragMove);
+		window.addEventListener("pointerup", this.onDragEnd);
+		window.addEventListener("pointercancel", this.onDragEnd);
+
+		dragged.start(this.ray(event));
+	};
+
+	private onDragMove = (event: PointerEvent) => {
+		this.dragged?.move(this.ray(event));
+	};
+
+	private onDragEnd = () => {
+		this.endDrag();
+	};
+
+	private onClick = (event: MouseEvent) => {
+		// Releasing the pointer after dragging, e.g. when rotating the camera with orbit controls, is not a click.
+		const position = new THREE.Vector2(event.clientX, event.clientY);
+		if (
+			this.downPosition !== null &&
+			this.downPosition.distanceTo(position) > CLICK_TOLERANCE
+		) {
+			return;
+		}
+
+		const hit = this.pick(event);
+		if (hit === null) return;
+		this.dispatch(
+			this.registeredAncestors(hit.object),
+			"click",
+			hit,
+			event,
+		);
+	};
+}
@@ -0,0 +1,144 @@
+/** Receives the new value of an {@link Observable} when it changes. */
+export type ChangeListener<T> = (value: T) => void;
+
+/** A value a computation can depend on. */
+type Source = { onChange: (listener: () => void) => () => void };
+
+/** The values read by each computation that is running, with the innermost one last. */
+const computations: Set<Source>[] = [];
+
+/**
+ * Base class of values that notify listeners when they change, like controls and {@link Computed} values.
+ */
+export abstract class Observable<T> {
+	/** The functions called when the value changes. */
+	private readonly listeners = new Set<ChangeListener<T>>();
+
+	/** Returns the current value. */
+	abstract value: () => T;
+
+	/**
+	 * Calls a function whenever the value changes, either by the user or programmatically.
+	 * ### Example
+	 * ```js
+	 * const radius = ctx.slider("Radius", 1, 100);
+	 * const unsubscribe = radius.onChange((value) => console.log("Radius:", value));
+	 * ```
+	 * @param listener The function to call with the new value.
+	 * @returns A function that stops calling the listener.
+	 */
+	onChange = (listener: ChangeListener<T>) => {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	};
+
+	/**
+	 * Keeps a retained object up to date with the value. The setter is called right away with the current value, and
+	 * again whenever the value changes, so no update function is needed.
+	 * ### Example
+	 * ```js
+	 * const sphere = ctx.sphere(50);
+	 * ctx.slider("Radius", 1, 100).bind(sphere, (sphere, radius) => sphere.radius(radius));
+	 * ctx.colorPicker("Color", "tomato").bind(sphere, (sphere, color) => sphere.color(color));
+	 * ```
+	 * @param object The object to update, like a sphere or a line.
+	 * @param setter The function that applies the value to the object.
+	 * @returns A function that stops updating the object.
+	 */
+	bind = <Target>(
+		object: Target,
+		setter: (object: Target, value: T) => void,
+	) => {
+		setter(object, this.value());
+		return this.onChange((value) => setter(object, value));
+	};
+
+	/**
+	 * Records that the running computation, if any, reads this value, so it is recomputed when the value changes.
+	 * Called by {@link value}.
+	 */
+	protected track() {
+		computations[computations.length - 1]?.add(this);
+	}
+
+	/**
+	 * Calls the listeners with the new value.
+	 */
+	protected notify(value: T) {
+		// Listeners may subscribe or unsubscribe while being called, so a copy is iterated.
+		for (const listener of [...this.listeners]) {
+			listener(value);
+		}
+	}
+}
+
+/**
+ * A value derived from controls or other computed values. It is recomputed when one of the values it read during the
+ * last computation changes, and notifies its own listeners if the result differs. Created with {@link Ctx.computed}.
+ */
+export class Computed<T> extends Observable<T> {
+	/** The function computing the value. */
+	private readonly fn: () => T;
+
+	/** The result of the last computation. */
+	private current: T;
+
+	/** Stop listening to the values read during the last computation. */
+	private unsubscribes: (() => void)[];
+
+	constructor(fn: () => T) {
+		super();
+		this.fn = fn;
+		this.unsubscribes = [];
+		this.current = this.compute();
+	}
+
+	value = () => {
+		this.track();
+		return this.current;
+	};
+
+	/**
+	 * Stops listening to the values this value is derived from. The value doesn't change after this.
+	 */
+	dispose() {
+		for (const unsubscribe of this.unsubscribes) {
+			unsubscribe();
+		}
+		this.unsubscribes = [];
+	}
+
+	/**
+	 * Calls the function and listens to the values it read, which can differ between calls, like when a branch
+	 * depends on a checkbox.
+	 */
+	private compute() {
+		const sources = new Set<Source>();
+		computations.push(sources);
+		let value: T;
+		try {
+			value = this.fn();
+		} finally {
+			computations.pop();
+		}
+
+		this.dispose();
+		this.unsubscribes = [...sources].map((source) =>
+			source.onChange(this.update),
+		);
+		return value;
+	}
+
+	/**
+	 * Recomputes the value after one of its sources changed.
+	 */
+	private update = () => {
+		const previous = this.current;
+		this.current = this.compute();
+		if (!Object.is(previous, this.current)) {
+			this.notify(this.current);
+		}
+	};
+}
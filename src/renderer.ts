@@ -1,9 +1,24 @@
 import { cssColors } from "./colorUtils.ts";
 import { Ctx } from "./ctx.ts";
 import { THREE } from "./index.ts";
+import { GifEncoder } from "./gif.ts";
+import {
+	exportModel,
+	type ModelExportOptions,
+	type ModelFormat,
+} from "./modelExport.ts";
+import { sceneToSVG } from "./svg.ts";
+import { StatePersistence, type PersistOptions } from "./persistence.ts";
 
 type RendererOptions = {
 	focusBehaviour?: FocusBehaviourOptions;
+	/**
+	 * Saves the values of all controls, like sliders and checkboxes, and optionally the camera, while the user interacts
+	 * with the renderer, and restores them when the page is opened again. With `true`, the state is kept in the URL
+	 * hash, so shared links show the same configuration.
+	 *
+	 * Default is false. */
+	persist?: boolean | PersistOptions;
 };
 
 type FocusBehaviourOptions = {
@@ -25,6 +40,41 @@ type FocusBehaviourOptions = {
 	stopWhenNotVisible?: boolean | { enabled: boolean; threshold?: number };
 };
 
+type CaptureOptions = {
+	/** Frames per second. Default is 30. */
+	fps?: number;
+	/** Length of the capture in seconds. */
+	duration: number;
+	/** Width of the frames in pixels. Defaults to the width of the renderer. */
+	width?: number;
+	/** Height of the frames in pixels. Defaults to the height of the renderer. */
+	height?: number;
+};
+
+type SnapshotOptions = {
+	/** Width of the image in pixels, before scaling. Defaults to the width of the renderer. */
+	width?: number;
+	/** Height of the image in pixels, before scaling. Defaults to the height of the renderer. */
+	height?: number;
+	/**
+	 * Factor the width and height are multiplied by. Line widths and text scale along, so the image looks like a
+	 * sharper version of the live view. Use 2 or more for print-quality figures. Default is 1.
+	 */
+	scale?: number;
+	/** Whether to leave out the background color, making the background transparent. Default is false. */
+	transparent?: boolean;
+};
+
+/** Encodes the content of a canvas as an image of the given MIME type. */
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) => {
+	return new Promise<Blob>((resolve, reject) => {
+		canvas.toBlob((blob) => {
+			if (blob !== null) resolve(blob);
+			else reject(new Error("Failed to encode the canvas."));
+		}, type);
+	});
+};
+
 export class Renderer {
 	/** The inner THREE.js WebGLRenderer instance. This is only created once per Renderer instance. */
 	private readonly inner: THREE.WebGLRenderer;
@@ -41,6 +91,9 @@ export class Renderer {
 	/** The context associated with this renderer. */
 	private readonly ctx: Ctx;
 
+	/** The scene rendered by this renderer. */
+	private readonly scene: THREE.Scene;
+
 	/** The options for the renderer's behavior. */
 	private readonly options: RendererOptions;
 
@@ -50,6 +103,15 @@ export class Renderer {
 	/** The timestamp of the last update in milliseconds. */
 	private lastMs: number | null;
 
+	/** The total time passed in the update loop in seconds. */
+	private elapsedSecs: number;
+
+	/** Whether frames are being captured, during which the update loop is paused. */
+	private capturing: boolean;
+
+	/** Saves and restores the state of the controls, if enabled in the options. */
+	private readonly persistence: StatePersistence | null;
+
 	constructor(setup: (ctx: Ctx) => void, options?: RendererOptions) {
 		this.inner = new THREE.WebGLRenderer({ antialias: true });
 		this.options = this.getRendererOptions(options);
@@ -81,6 +143,15 @@ export class Renderer {
 
                     overflow: hidden;
                 }
+                .renderer-wrapper.clickable {
+                    cursor: pointer;
+                }
+                .renderer-wrapper.draggable {
+                    cursor: grab;
+                }
+                .renderer-wrapper.dragging {
+                    cursor: grabbing;
+                }
                 .renderer-wrapper > * {
                     margin-top: 16px;
                     margin-left: 16px;
@@ -160,6 +231,28 @@ export class Renderer {
                     background: ${cssColors.dark.foreground};
                 }
 
+                .renderer-timeline-container {
+                    min-width: 240px;
+                }
+                .renderer-timeline-container > div > div {
+                    display: flex;
+                    gap: 4px;
+                }
+                .renderer-timeline-container button {
+                    font: inherit;
+                    color: inherit;
+
+                    background: none;
+                    border: 1px solid currentColor;
+                    border-radius: 4px;
+
+                    padding: 0 6px;
+                    cursor: pointer;
+                }
+                .renderer-timeline-container button:last-child:not(.active) {
+                    opacity: 0.5;
+                }
+
                 .renderer-text-element {
                     font-family: Geist, sans-serif;
                     font-weight: 500;
@@ -192,16 +285,191 @@ export class Renderer {
                 .renderer-checkbox-container > label {
                     cursor: pointer;
                 }
+
+                .renderer-wrapper > .renderer-panel {
+                    position: absolute;
+                    margin: 0;
+
+                    display: flex;
+                    flex-direction: column;
+                    max-width: calc(100% - 32px);
+                    max-height: calc(100% - 32px);
+
+                    font-family: Geist, sans-serif;
+                    font-size: 12px;
+                    font-weight: 500;
+                    color: ${cssColors.light.foreground};
+
+                    background-color: ${cssColors.light.background};
+                    border: 1px solid ${cssColors.light.secondary};
+                    border-radius: 8px;
+                }
+                .renderer-panel.top-left {
+                    top: 16px;
+                    left: 16px;
+                }
+                .renderer-panel.top-right {
+                    top: 16px;
+                    right: 16px;
+                }
+                .renderer-panel.bottom-left {
+                    bottom: 16px;
+                    left: 16px;
+                }
+                .renderer-panel.bottom-right {
+                    bottom: 16px;
+                    right: 16px;
+                }
+                .renderer-panel.dark {
+                    color: ${cssColors.dark.foreground};
+                    background-color: ${cssColors.dark.background};
+                    border-color: ${cssColors.dark.secondary};
+                }
+                .renderer-panel-header {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                    gap: 16px;
+
+                    padding: 8px 12px;
+                    font-size: 14px;
+                }
+                .renderer-panel-header > button {
+                    font: inherit;
+                    font-size: 12px;
+                    color: inherit;
+
+                    background: none;
+                    border: none;
+                    opacity: 0.6;
+
+                    padding: 0;
+                    cursor: pointer;
+                }
+                .renderer-panel-content {
+                    display: flex;
+                    flex-direction: column;
+                    align-items: stretch;
+                    gap: 12px;
+                }
+                .renderer-panel > .renderer-panel-content {
+                    overflow-y: auto;
+                    padding: 4px 12px 12px;
+                }
+                .renderer-panel-content[hidden] {
+                    display: none;
+                }
+                .renderer-panel-folder > summary {
+                    font-size: 13px;
+                    cursor: pointer;
+                }
+                .renderer-panel-folder > .renderer-panel-content {
+                    padding: 8px 0 0 12px;
+                }
+                .renderer-panel .renderer-slider-container,
+                .renderer-panel .renderer-input-container,
+                .renderer-panel .renderer-checkbox-container {
+                    color: inherit;
+                }
+
+                .renderer-input-container {
+                    display: flex;
+                    flex-direction: column;
+
+                    font-family: Geist, sans-serif;
+                    font-size: 12px;
+                    font-weight: 500;
+                    color: ${cssColors.light.foreground};
+
+                    gap: 4px;
+                }
+                .renderer-input-container.dark {
+                    color: ${cssColors.dark.foreground};
+                }
+                .renderer-input-container.inline {
+                    flex-direction: row;
+                    align-items: center;
+                    gap: 8px;
+                }
+                .renderer-input-container > div {
+                    display: flex;
+                    justify-content: space-between;
+                    gap: 8px;
+                }
+                .renderer-input-container > select,
+                .renderer-input-container > input[type="number"],
+                .renderer-input-container > input[type="text"] {
+                    font: inherit;
+                    color: inherit;
+
+                    background: none;
+                    border: 1px solid ${cssColors.light.muted};
+                    border-radius: 4px;
+
+                    padding: 4px 6px;
+                }
+                .renderer-input-container.dark > select,
+                .renderer-input-container.dark > input[type="number"],
+                .renderer-input-container.dark > input[type="text"] {
+                    border-color: ${cssColors.dark.muted};
+                }
+                .renderer-input-container.dark > select > option {
+                    background-color: ${cssColors.dark.background};
+                }
+                .renderer-input-container > input[type="color"] {
+                    width: 24px;
+                    height: 24px;
+                    padding: 0;
+                    border: none;
+                    background: none;
+                    cursor: pointer;
+                }
+                .renderer-pad {
+                    position: relative;
+                    border: 1px solid ${cssColors.light.muted};
+                    border-radius: 4px;
+                    touch-action: none;
+                    cursor: crosshair;
+                }
+                .renderer-input-container.dark > .renderer-pad {
+                    border-color: ${cssColors.dark.muted};
+                }
+                .renderer-pad > div {
+                    position: absolute;
+                    width: 12px;
+                    height: 12px;
+                    border-radius: 50%;
+                    transform: translate(-50%, -50%);
+                    background: ${cssColors.light.foreground};
+                    pointer-events: none;
+                }
+                .renderer-input-container.dark > .renderer-pad > div {
+                    background: ${cssColors.dark.foreground};
+                }
             `;
 
 			document.head.appendChild(style);
 		}
 
 		const scene = new THREE.Scene();
+		this.scene = scene;
 		this.ctx = new Ctx(scene, this.wrapper);
 
+		// The wrapper is usually added to the page after construction, so the size of the window stands in until the
+		// first resize. A perspective camera created during setup needs it to keep objects at their size in pixels.
+		this.ctx.__setCameraBounds(window.innerWidth, window.innerHeight);
+
 		setup(this.ctx);
 
+		const persist = this.options.persist;
+		this.persistence = persist
+			? new StatePersistence(
+					this.ctx,
+					this.wrapper,
+					persist === true ? {} : persist,
+				)
+			: null;
+
 		this.resizeObserver = this.getResizeObserver(scene);
 		this.intersectionObserver = this.getIntersectionObserver();
 
@@ -215,9 +483,15 @@ export class Renderer {
 		let hasRenderedOnce = false;
 
 		this.lastMs = null;
-		let elapsedSecs = 0;
+		this.elapsedSecs = 0;
+		this.capturing = false;
 
 		this.inner.setAnimationLoop((elapsedMs) => {
+			if (this.capturing) {
+				this.lastMs = null;
+				return;
+			}
+
 			const isStoppedByHoverState =
 				this.options.focusBehaviour?.onlyWhenHovered &&
 				!this.wrapper.matches(":hover");
@@ -235,11 +509,11 @@ export class Renderer {
 			let deltaSecs = 0;
 			if (this.lastMs !== null) {
 				deltaSecs = (elapsedMs - this.lastMs) / 1000;
-				elapsedSecs += deltaSecs;
+				this.elapsedSecs += deltaSecs;
 			}
 			this.lastMs = elapsedMs;
 
-			this.ctx.__tick(deltaSecs, elapsedSecs);
+			this.ctx.__tick(deltaSecs, this.elapsedSecs);
 			this.inner.render(scene, this.ctx.camera);
 
 			hasRenderedOnce = true;
@@ -262,6 +536,7 @@ export class Renderer {
 	 * anymore. Also removes the renderer's DOM element from the document if it was added.
 	 */
 	dispose() {
+		this.persistence?.dispose();
 		this.ctx.__dispose();
 
 		// this.inner.dispose() alone does not free up WebGL contexts, so we force a context loss first.
@@ -281,6 +556,371 @@ export class Renderer {
 		);
 	}
 
+	/**
+	 * Renders the scene once as a PNG image. Rendering happens offscreen, so the size can differ from the renderer's.
+	 * The image shows the part of the scene that is currently visible, scaled to its height.
+	 * ### Example
+	 * ```js
+	 * const image = await renderer.snapshot({ width: 1200, height: 800, scale: 3, transparent: true });
+	 * window.open(URL.createObjectURL(image));
+	 * ```
+	 * @param options (Optional) The size, scale and background of the image.
+	 * @returns The image as a PNG Blob.
+	 */
+	async snapshot(options?: SnapshotOptions): Promise<Blob> {
+		const renderer = this.renderSnapshot(options);
+		try {
+			return await canvasToBlob(renderer.domElement, "image/png");
+		} finally {
+			this.disposeOffscreenRenderer(renderer);
+		}
+	}
+
+	/**
+	 * Renders the scene once as a PNG image, like {@link snapshot}, and returns it as a data URL.
+	 * ### Example
+	 * ```js
+	 * const img = document.createElement("img");
+	 * img.src = renderer.snapshotDataURL({ scale: 2 });
+	 * ```
+	 * @param options (Optional) The size, scale and background of the image.
+	 * @returns The image as a data URL.
+	 */
+	snapshotDataURL(options?: SnapshotOptions): string {
+		const renderer = this.renderSnapshot(options);
+		try {
+			return renderer.domElement.toDataURL("image/png");
+		} finally {
+			this.disposeOffscreenRenderer(renderer);
+		}
+	}
+
+	/**
+	 * Converts the current view to an SVG image. Line strips, grids, points and meshes with a single flat color, like
+	 * circles, planes, arrows and text, become vector shapes sorted by depth. Other meshes, like shaded surfaces, are
+	 * embedded as raster images.
+	 * ### Example
+	 * ```js
+	 * const svg = renderer.toSVG();
+	 * const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+	 * ```
+	 * @param options (Optional) Whether to include the background color. Default is true.
+	 * @returns The SVG markup.
+	 */
+	toSVG(options?: { background?: boolean }): string {
+		const { width, height } = this.getCaptureSize({});
+		let rasterRenderer: THREE.WebGLRenderer | null = null;
+
+		try {
+			return sceneToSVG(this.scene, this.ctx.camera, width, height, {
+				background: options?.background ?? true,
+				rasterize: (object) => {
+					rasterRenderer ??= this.createOffscreenRenderer(
+						width,
+						height,
+						window.devicePixelRatio,
+						true,
+					);
+					return this.renderIsolated(rasterRenderer, object);
+				},
+			});
+		} finally {
+			if (rasterRenderer !== null) {
+				this.disposeOffscreenRenderer(rasterRenderer);
+			}
+		}
+	}
+
+	/**
+	 * Exports the scene as a 3D model. Transforms are baked into the geometry and vertex colors are kept, except in
+	 * STL, which has no colors. Lines and points are left out of STL, which only holds triangles.
+	 * ### Example
+	 * ```js
+	 * const blob = await renderer.export("stl", { excludeHelpers: true, thickness: 2 });
+	 * const link = document.createElement("a");
+	 * link.href = URL.createObjectURL(blob);
+	 * link.download = "surface.stl";
+	 * link.click();
+	 * ```
+	 * @param format The file format: "gltf", "glb", "obj" or "stl".
+	 * @param options (Optional) Whether to leave out helpers and lights, and the thickness of surfaces in STL.
+	 * @returns The model file as a Blob.
+	 */
+	export(format: ModelFormat, options?: ModelExportOptions): Promise<Blob> {
+		return exportModel(this.scene, format, options);
+	}
+
+	/**
+	 * Captures an animation frame by frame as PNG images. The update functions are advanced by a fixed time step for
+	 * each frame, so the result is smooth no matter how long rendering takes. The live view is paused while capturing.
+	 * ### Example
+	 * ```js
+	 * const frames = [];
+	 * for await (const frame of renderer.capture({ fps: 60, duration: 2 })) {
+	 *     frames.push(frame);
+	 * }
+	 * ```
+	 * @param options The frame rate, duration and size of the frames. The frames show the part of the scene that is
+	 * currently visible, scaled to their height.
+	 * @returns An async generator yielding each frame as a PNG Blob. Finish or break out of the loop to resume the
+	 * live view.
+	 */
+	async *capture(options: CaptureOptions): AsyncGenerator<Blob> {
+		for (const frame of this.renderFrames(options)) {
+			yield await canvasToBlob(frame, "image/png");
+		}
+	}
+
+	/**
+	 * Captures an animation as an animated GIF that loops forever. See {@link capture} for how frames are rendered.
+	 * GIFs are limited to 256 colors per frame and frame durations in hundredths of a second.
+	 * ### Example
+	 * ```js
+	 * const gif = await renderer.captureGif({ fps: 25, duration: 4, width: 480, height: 270 });
+	 * window.open(URL.createObjectURL(gif));
+	 * ```
+	 * @param options The frame rate, duration and size of the frames.
+	 * @returns The GIF as a Blob.
+	 */
+	async captureGif(options: CaptureOptions): Promise<Blob> {
+		const { width, height } = this.getCaptureSize(options);
+		const [canvas, context] = this.createCaptureCanvas(width, height);
+		const encoder = new GifEncoder(width, height, 1 / (options.fps ?? 30));
+
+		for (const frame of this.renderFrames(options)) {
+			context.drawImage(frame, 0, 0);
+			encoder.addFrame(context.getImageData(0, 0, width, height));
+
+			// Gives the browser a chance to handle events between frames.
+			await new Promise((resolve) => setTimeout(resolve, 0));
+		}
+		canvas.remove();
+
+		return encoder.finish();
+	}
+
+	/**
+	 * Captures an animation as a WebM video using the browser's MediaRecorder. See {@link capture} for how frames are
+	 * rendered. The recorder timestamps frames with the wall clock, so this takes as long as the video itself.
+	 * ### Example
+	 * ```js
+	 * const video = await renderer.captureWebM({ fps: 60, duration: 5, width: 1920, height: 1080 });
+	 * ```
+	 * @param options The frame rate, duration and size of the frames.
+	 * @returns The video as a Blob.
+	 * @throws If the browser can't record WebM videos from a canvas.
+	 */
+	async captureWebM(options: CaptureOptions): Promise<Blob> {
+		const mimeType = [
+			"video/webm;codecs=vp9",
+			"video/webm;codecs=vp8",
+			"video/webm",
+		].find(
+			(type) =>
+				typeof MediaRecorder !== "undefined" &&
+				MediaRecorder.isTypeSupported(type),
+		);
+		if (
+			mimeType === undefined ||
+			!("captureStream" in HTMLCanvasElement.prototype)
+		) {
+			throw new Error("WebM capture is not supported in this browser.");
+		}
+
+		const fps = options.fps ?? 30;
+		const { width, height } = this.getCaptureSize(options);
+		const [canvas, context] = this.createCaptureCanvas(width, height);
+
+		// Frames are only added to the stream when requested, so that each rendered frame ends up in the video once.
+		const stream = canvas.captureStream(0);
+		const track =
+			stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+		const recorder = new MediaRecorder(stream, { mimeType });
+		const chunks: Blob[] = [];
+		recorder.ondataavailable = (event) => chunks.push(event.data);
+		const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+
+		recorder.start();
+		for (const frame of this.renderFrames(options)) {
+			context.drawImage(frame, 0, 0);
+			track.requestFrame();
+			await new Promise((resolve) => setTimeout(resolve, 1000 / fps));
+		}
+		recorder.stop();
+		await stopped;
+		canvas.remove();
+
+		return new Blob(chunks, { type: mimeType });
+	}
+
+	/**
+	 * Renders the frames of a capture to an offscreen canvas, advancing the context by a fixed time step before each
+	 * frame. The live view is paused until the generator is finished or returned from.
+	 */
+	private *renderFrames(options: CaptureOptions) {
+		if (this.capturing) {
+			throw new Error("Another capture is already running.");
+		}
+
+		const fps = options.fps ?? 30;
+		if (fps <= 0 || options.duration <= 0) {
+			throw new Error(
+				"Invalid capture: 'fps' and 'duration' must be positive.",
+			);
+		}
+		const frameCount = Math.max(Math.round(options.duration * fps), 1);
+		const { width, height } = this.getCaptureSize(options);
+
+		const renderer = this.createOffscreenRenderer(width, height);
+		this.fitCameraBounds(width, height);
+		this.capturing = true;
+
+		try {
+			for (let i = 0; i < frameCount; i++) {
+				const dt = i === 0 ? 0 : 1 / fps;
+				this.elapsedSecs += dt;
+				this.ctx.__tick(dt, this.elapsedSecs);
+				renderer.render(this.scene, this.ctx.camera);
+				yield renderer.domElement;
+			}
+		} finally {
+			this.capturing = false;
+			this.resetCameraBounds();
+			this.disposeOffscreenRenderer(renderer);
+		}
+	}
+
+	/**
+	 * Renders the scene once to an offscreen canvas and returns the renderer. The caller must dispose it with
+	 * {@link disposeOffscreenRenderer}.
+	 */
+	private renderSnapshot(options: SnapshotOptions | undefined) {
+		const { width, height } = this.getCaptureSize(options ?? {});
+		const transparent = options?.transparent ?? false;
+		const renderer = this.createOffscreenRenderer(
+			width,
+			height,
+			options?.scale ?? 1,
+			transparent,
+		);
+
+		const background = this.scene.background;
+		if (transparent) this.scene.background = null;
+		this.fitCameraBounds(width, height);
+		try {
+			renderer.render(this.scene, this.ctx.camera);
+		} finally {
+			this.scene.background = background;
+			this.resetCameraBounds();
+		}
+		return renderer;
+	}
+
+	/**
+	 * Renders only the given object and its descendants on a transparent background, and returns the image as a data
+	 * URL.
+	 */
+	private renderIsolated(
+		renderer: THREE.WebGLRenderer,
+		object: THREE.Object3D,
+	) {
+		const hidden: THREE.Object3D[] = [];
+		this.scene.traverseVisible((child) => {
+			const isDrawn =
+				child instanceof THREE.Mesh ||
+				child instanceof THREE.Line ||
+				child instanceof THREE.Points;
+			let current: THREE.Object3D | null = child;
+			while (current !== null && current !== object) {
+				current = current.parent;
+			}
+			if (isDrawn && current === null) hidden.push(child);
+		});
+
+		const background = this.scene.background;
+		this.scene.background = null;
+		hidden.forEach((child) => (child.visible = false));
+		try {
+			renderer.render(this.scene, this.ctx.camera);
+			return renderer.domElement.toDataURL("image/png");
+		} finally {
+			this.scene.background = background;
+			hidden.forEach((child) => (child.visible = true));
+		}
+	}
+
+	/**
+	 * Creates a renderer that draws to a canvas which isn't on the page, so that the live canvas stays untouched. Its
+	 * drawing buffer is preserved so that it can still be read after rendering.
+	 */
+	private createOffscreenRenderer(
+		width: number,
+		height: number,
+		pixelRatio = 1,
+		alpha = false,
+	) {
+		const renderer = new THREE.WebGLRenderer({
+			antialias: true,
+			preserveDrawingBuffer: true,
+			alpha,
+		});
+		renderer.setPixelRatio(pixelRatio);
+		renderer.setSize(width, height, false);
+
+		// Browsers silently shrink drawing buffers that are larger than they support.
+		const gl = renderer.getContext();
+		const expectedWidth = Math.floor(width * pixelRatio);
+		const expectedHeight = Math.floor(height * pixelRatio);
+		if (
+			gl.drawingBufferWidth < expectedWidth ||
+			gl.drawingBufferHeight < expectedHeight
+		) {
+			this.disposeOffscreenRenderer(renderer);
+			throw new Error(
+				`Image size ${expectedWidth}x${expectedHeight} exceeds the maximum supported by this device.`,
+			);
+		}
+		return renderer;
+	}
+
+	/** Frees the WebGL context of an offscreen renderer */
+	private disposeOffscreenRenderer(renderer: THREE.WebGLRenderer) {
+		// dispose() alone does not free up WebGL contexts, see dispose().
+		renderer.forceContextLoss();
+		renderer.dispose();
+	}
+
+	/** Sets the camera bounds so that an image of the given size shows the visible part of the scene */
+	private fitCameraBounds(width: number, height: number) {
+		const viewHeight = this.wrapper.clientHeight || height;
+		this.ctx.__setCameraBounds((viewHeight * width) / height, viewHeight);
+	}
+
+	/** Sets the camera bounds back to the size of the renderer */
+	private resetCameraBounds() {
+		this.ctx.__setCameraBounds(
+			this.wrapper.clientWidth,
+			this.wrapper.clientHeight,
+		);
+	}
+
+	/** Returns the size of captured frames, defaulting to the size of the renderer */
+	private getCaptureSize(options: { width?: number; height?: number }) {
+		return {
+			width: Math.round(options.width ?? this.wrapper.clientWidth),
+			height: Math.round(options.height ?? this.wrapper.clientHeight),
+		};
+	}
+
+	/** Creates a 2D canvas that captured frames are copied to for encoding */
+	private createCaptureCanvas(width: number, height: number) {
+		const canvas = document.createElement("canvas");
+		canvas.width = width;
+		canvas.height = height;
+		const context = canvas.getContext("2d", { willReadFrequently: true })!;
+		return [canvas, context] as const;
+	}
+
 	/** Returns the renderer options with default values applied if configuration options are not provided */
 	private getRendererOptions(
 		options: RendererOptions | undefined,
@@ -292,6 +932,7 @@ export class Renderer {
 				stopWhenNotVisible:
 					options?.focusBehaviour?.stopWhenNotVisible ?? true,
 			},
+			persist: options?.persist ?? false,
 		};
 	}
 
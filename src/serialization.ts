@@ -0,0 +1,539 @@
+import { THREE, type Ctx } from "./index.ts";
+import {
+	BasicObject,
+	getMaterials,
+	type SceneObject,
+} from "./objects/index.ts";
+
+/** The version of the scene format written by {@link Ctx.serialize}. */
+export const SCENE_VERSION = 1;
+
+type Tuple3 = [number, number, number];
+
+/** Transform and appearance shared by all serialized objects. */
+export type SerializedStyle = {
+	/** The position of the object. */
+	pos: Tuple3;
+	/** The rotation of the object as XYZ Euler angles in radians. Default is no rotation. */
+	rotation?: Tuple3;
+	/** The scale of the object per axis. Default is 1. */
+	scale?: Tuple3;
+	/** The opacity of the object, between 0 and 1. Default is 1. */
+	opacity?: number;
+	/** Whether the object uses a shaded material. Default is false. */
+	shaded?: boolean;
+};
+
+/** Color as a CSS hex string, like "#ff0000". */
+type HexColor = string;
+
+/** Dash pattern of a dashed line. */
+type SerializedDashes = { dashSize: number; gapSize: number };
+
+/** The construction parameters and style of an object, as written by {@link SceneObject.serialize}. */
+export type SerializedObject = SerializedStyle &
+	(
+		| {
+				type: "sphere";
+				radius: number;
+				widthSegments: number;
+				heightSegments: number;
+				color?: HexColor;
+		  }
+		| {
+				type: "cuboid";
+				width: number;
+				height: number;
+				depth: number;
+				color?: HexColor;
+		  }
+		| { type: "circle"; radius: number; segments: number; color?: HexColor }
+		| {
+				type: "cylinder";
+				radiusTop: number;
+				radiusBottom: number;
+				height: number;
+				radialSegments: number;
+				color?: HexColor;
+		  }
+		| { type: "plane"; width: number; height: number; color?: HexColor }
+		| {
+				type: "torus";
+				radius: number;
+				tubeRadius: number;
+				radialSegments: number;
+				tubularSegments: number;
+				color?: HexColor;
+		  }
+		| {
+				type: "cone";
+				radius: number;
+				height: number;
+				radialSegments: number;
+				color?: HexColor;
+		  }
+		| {
+				type: "text";
+				text: string;
+				size: number;
+				direction: "ltr" | "rtl" | "tb";
+				billboard?: boolean;
+				color?: HexColor;
+		  }
+		| {
+				type: "lineStrip";
+				points: Tuple3[];
+				linewidth: number;
+				dashed?: SerializedDashes;
+				/** One color, or one color per point. */
+				color?: HexColor | HexColor[];
+		  }
+		| {
+				type: "arrow";
+				start: Tuple3;
+				end: Tuple3;
+				headLength: number;
+				linewidth: number;
+				dashed?: SerializedDashes;
+				/** One color, or the start and end colors of a gradient. */
+				color?: HexColor | [HexColor, HexColor];
+		  }
+		| {
+				type: "points";
+				points: Tuple3[];
+				pointSize: number;
+				/** One color, or one color per point. */
+				color?: HexColor | HexColor[];
+				/** The alpha of each point. Default is 1 for all points. */
+				alpha?: number[];
+		  }
+		| {
+				type: "heightField";
+				size: [number, number];
+				segments: [number, number];
+				heights: number[];
+				/** One color, or one color per vertex. */
+				color?: HexColor | HexColor[];
+		  }
+	);
+
+/** A scene as written by {@link Ctx.serialize}. */
+export type SerializedScene = {
+	version: typeof SCENE_VERSION;
+	/** The background color, if one is set. */
+	background?: HexColor;
+	/** The objects, in the order they were created. */
+	objects: SerializedObject[];
+};
+
+const vec3Schema = {
+	type: "array",
+	items: { type: "number" },
+	minItems: 3,
+	maxItems: 3,
+};
+const vec2Schema = { ...vec3Schema, minItems: 2, maxItems: 2 };
+const colorSchema = { type: "string", pattern: "^#[0-9a-fA-F]{6}$" };
+const colorListSchema = {
+	oneOf: [colorSchema, { type: "array", items: colorSchema }],
+};
+const dashesSchema = {
+	type: "object",
+	properties: {
+		dashSize: { type: "number" },
+		gapSize: { type: "number" },
+	},
+	required: ["dashSize", "gapSize"],
+	additionalProperties: false,
+};
+
+/**
+ * Returns the schema of one object type, with the properties of {@link SerializedStyle} added to the given ones.
+ */
+const objectSchema = (
+	type: SerializedObject["type"],
+	properties: Record<string, object>,
+) => ({
+	type: "object",
+	properties: {
+		type: { const: type },
+		pos: vec3Schema,
+		rotation: vec3Schema,
+		scale: vec3Schema,
+		opacity: { type: "number", minimum: 0, maximum: 1 },
+		shaded: { type: "boolean" },
+		color: colorSchema,
+		...properties,
+	},
+	required: [
+		"type",
+		"pos",
+		...Object.keys(properties).filter(
+			(key) => !["color", "dashed", "alpha", "billboard"].includes(key),
+		),
+	],
+	additionalProperties: false,
+});
+
+/**
+ * JSON Schema of the documents written by {@link Ctx.serialize} and read by {@link Ctx.load}, for tools that generate
+ * or check scenes.
+ */
+export const sceneSchema = {
+	$schema: "https://json-schema.org/draft/2020-12/schema",
+	title: "Scene",
+	type: "object",
+	properties: {
+		version: { const: SCENE_VERSION },
+		background: colorSchema,
+		objects: {
+			type: "array",
+			items: {
+				oneOf: [
+					objectSchema("sphere", {
+						radius: { type: "number" },
+						widthSegments: { type: "integer", minimum: 3 },
+						heightSegments: { type: "integer", minimum: 2 },
+					}),
+					objectSchema("cuboid", {
+						width: { type: "number" },
+						height: { type: "number" },
+						depth: { type: "number" },
+					}),
+					objectSchema("circle", {
+						radius: { type: "number" },
+						segments: { type: "integer", minimum: 3 },
+					}),
+					objectSchema("cylinder", {
+						radiusTop: { type: "number" },
+						radiusBottom: { type: "number" },
+						height: { type: "number" },
+						radialSegments: { type: "integer", minimum: 3 },
+					}),
+					objectSchema("plane", {
+						width: { type: "number" },
+						height: { type: "number" },
+					}),
+					objectSchema("torus", {
+						radius: { type: "number" },
+						tubeRadius: { type: "number" },
+						radialSegments: { type: "integer", minimum: 2 },
+						tubularSegments: { type: "integer", minimum: 3 },
+					}),
+					objectSchema("cone", {
+						radius: { type: "number" },
+						height: { type: "number" },
+						radialSegments: { type: "integer", minimum: 3 },
+					}),
+					objectSchema("text", {
+						text: { type: "string" },
+						size: { type: "number" },
+						direction: { enum: ["ltr", "rtl", "tb"] },
+						billboard: { type: "boolean" },
+					}),
+					objectSchema("lineStrip", {
+						points: { type: "array", items: vec3Schema },
+						linewidth: { type: "number" },
+						dashed: dashesSchema,
+						color: colorListSchema,
+					}),
+					objectSchema("arrow", {
+						start: vec3Schema,
+						end: vec3Schema,
+						headLength: { type: "number" },
+						linewidth: { type: "number" },
+						dashed: dashesSchema,
+						color: {
+							oneOf: [
+								colorSchema,
+								{
+									type: "array",
+									items: colorSchema,
+									minItems: 2,
+									maxItems: 2,
+								},
+							],
+						},
+					}),
+					objectSchema("points", {
+						points: { type: "array", items: vec3Schema },
+						pointSize: { type: "number" },
+						color: colorListSchema,
+						alpha: {
+							type: "array",
+							items: { type: "number", minimum: 0, maximum: 1 },
+						},
+					}),
+					objectSchema("heightField", {
+						size: vec2Schema,
+						segments: {
+							...vec2Schema,
+							items: { type: "integer", minimum: 1 },
+						},
+						heights: { type: "array", items: { type: "number" } },
+						color: colorListSchema,
+					}),
+				],
+			},
+		},
+	},
+	required: ["version", "objects"],
+	additionalProperties: false,
+} as const;
+
+/** The schemas of the object types, by type. */
+const objectSchemas = new Map<
+	unknown,
+	{ properties: Record<string, object>; required: string[] }
+>(
+	sceneSchema.properties.objects.items.oneOf.map((schema) => [
+		schema.properties.type.const,
+		schema,
+	]),
+);
+
+/**
+ * Throws if a value isn't a scene document that {@link Ctx.load} can rebuild: its version, background and the objects
+ * are checked, so that an invalid document is rejected before the scene is changed.
+ * @param document The parsed document.
+ */
+export const validateScene: (
+	document: unknown,
+) => asserts document is SerializedScene = (document) => {
+	if (!isRecord(document) || document.version !== SCENE_VERSION) {
+		const version = isRecord(document) ? document.version : undefined;
+		throw new Error(
+			`Unsupported scene version. Expected ${SCENE_VERSION}, got ${String(version)}.`,
+		);
+	}
+	if (
+		document.background !== undefined &&
+		!(
+			typeof document.background === "string" &&
+			new RegExp(colorSchema.pattern).test(document.background)
+		)
+	) {
+		throw new Error(
+			`The background of the scene must be a hex color like "#ff0000", got ${JSON.stringify(document.background)}.`,
+		);
+	}
+	if (!Array.isArray(document.objects)) {
+		throw new Error("The objects of the scene must be an array.");
+	}
+	document.objects.forEach(validateObject);
+};
+
+/**
+ * Throws if a value isn't an object of a known type with all the keys its type requires, or if one of its keys has a
+ * value of the wrong JSON type. Nested values, like the items of arrays, aren't checked.
+ * @param data The value to check.
+ * @param index The index of the value in the document, used in error messages.
+ */
+const validateObject: (
+	data: unknown,
+	index: number,
+) => asserts data is SerializedObject = (data, index) => {
+	if (!isRecord(data)) {
+		throw new Error(`Object ${index} of the scene is not an object.`);
+	}
+	const schema = objectSchemas.get(data.type);
+	if (schema === undefined) {
+		throw new Error(
+			`Object ${index} of the scene has the unknown type "${String(data.type)}".`,
+		);
+	}
+
+	for (const key of schema.required) {
+		if (!(key in data)) {
+			throw new Error(
+				`Object ${index} of the scene, of type "${String(data.type)}", is missing "${key}".`,
+			);
+		}
+	}
+	for (const [key, value] of Object.entries(data)) {
+		const type = (schema.properties[key] as { type?: unknown } | undefined)
+			?.type;
+		if (typeof type === "string" && !hasJsonType(value, type)) {
+			throw new Error(
+				`Object ${index} of the scene, of type "${String(data.type)}", has a "${key}" that is not of type ${type}.`,
+			);
+		}
+	}
+};
+
+/** Returns whether a value is an object with string keys, and not an array or null. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Returns whether a value has the given JSON Schema type. */
+const hasJsonType = (value: unknown, type: string) => {
+	switch (type) {
+		case "array":
+			return Array.isArray(value);
+		case "object":
+			return isRecord(value);
+		case "integer":
+			return Number.isInteger(value);
+		default:
+			return typeof value === type;
+	}
+};
+
+/** Returns the components of a vector as an array. */
+export const toTuple = (vector: THREE.Vector3): Tuple3 => [
+	vector.x,
+	vector.y,
+	vector.z,
+];
+
+/** Returns a color as a CSS hex string. */
+export const toHex = (color: THREE.Color): HexColor =>
+	`#${color.getHexString()}`;
+
+/**
+ * Returns colors as CSS hex strings, or a single string if all colors are the same.
+ */
+export const toHexList = (colors: THREE.Color[]): HexColor | HexColor[] => {
+	const hexColors = colors.map(toHex);
+	return hexColors.length > 0 && hexColors.every((c) => c === hexColors[0])
+		? hexColors[0]!
+		: hexColors;
+};
+
+/** Returns the first colors stored in an attribute. */
+export const readColors = (
+	attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+	count: number,
+) => {
+	const colors = [];
+	for (let i = 0; i < count; i++) {
+		colors.push(new THREE.Color().fromBufferAttribute(attribute, i));
+	}
+	return colors;
+};
+
+/**
+ * Creates an object from its serialized form. See {@link Ctx.load}.
+ */
+export const loadObject = (
+	ctx: Ctx,
+	data: SerializedObject,
+): SceneObject<unknown> => {
+	const object = createObject(ctx, data);
+
+	if (data.shaded && object instanceof BasicObject) {
+		object.shaded();
+	}
+	const mesh = object.mesh;
+	object.pos(data.pos);
+	if (data.rotation !== undefined) mesh.rotation.fromArray(data.rotation);
+	if (data.scale !== undefined) mesh.scale.fromArray(data.scale);
+	if (data.opacity !== undefined) {
+		for (const material of getMaterials(mesh)) {
+			material.transparent = true;
+			material.opacity = data.opacity;
+		}
+	}
+	return object;
+};
+
+/**
+ * Creates an object from its construction parameters and sets its type-specific style, like its color.
+ */
+const createObject = (ctx: Ctx, data: SerializedObject) => {
+	switch (data.type) {
+		case "sphere":
+			return withColor(
+				ctx
+					.sphere(data.radius)
+					.segments(data.widthSegments, data.heightSegments),
+				data.color,
+			);
+		case "cuboid":
+			return withColor(
+				ctx.cuboid(data.width, data.height, data.depth),
+				data.color,
+			);
+		case "circle":
+			return withColor(
+				ctx.circle(data.radius).segments(data.segments),
+				data.color,
+			);
+		case "cylinder":
+			return withColor(
+				ctx
+					.cylinder(data.radiusTop, data.radiusBottom, data.height)
+					.segments(data.radialSegments),
+				data.color,
+			);
+		case "plane":
+			return withColor(ctx.plane(data.width, data.height), data.color);
+		case "torus":
+			return withColor(
+				ctx
+					.torus(data.radius, data.tubeRadius)
+					.radialSegments(data.radialSegments)
+					.tubularSegments(data.tubularSegments),
+				data.color,
+			);
+		case "cone":
+			return withColor(
+				ctx
+					.cone(data.radius, data.height)
+					.segments(data.radialSegments),
+				data.color,
+			);
+		case "text": {
+			const text = ctx
+				.text(data.text)
+				.size(data.size)
+				.dir(data.direction);
+			if (data.billboard) text.billboard();
+			return withColor(text, data.color);
+		}
+		case "lineStrip": {
+			const line = ctx.lineStrip(data.points).linewidth(data.linewidth);
+			if (data.dashed !== undefined) {
+				line.dashed(data.dashed.dashSize, data.dashed.gapSize);
+			}
+			return withColor(line, data.color);
+		}
+		case "arrow": {
+			const arrow = ctx
+				.arrow(data.start, data.end, data.headLength)
+				.linewidth(data.linewidth);
+			if (data.dashed !== undefined) {
+				arrow.dashed(data.dashed.dashSize, data.dashed.gapSize);
+			}
+			const color = data.color;
+			return withColor(
+				arrow,
+				Array.isArray(color) ? { from: color[0], to: color[1] } : color,
+			);
+		}
+		case "points": {
+			const points = withColor(
+				ctx.points(data.points).pointSize(data.pointSize),
+				data.color,
+			);
+			// Setting the color resets the alpha, so it is set afterwards.
+			data.alpha?.forEach((alpha, i) => points.setAlpha(i, alpha));
+			return points;
+		}
+		case "heightField":
+			return withColor(
+				ctx.heightField(data.size, data.segments, data.heights),
+				data.color,
+			);
+		default:
+			throw new Error(
+				`Unknown object type "${(data as { type: unknown }).type}".`,
+			);
+	}
+};
+
+/** Sets the color of an object if one is given. */
+const withColor = <ColorType, T extends { color(color: ColorType): T }>(
+	object: T,
+	color: ColorType | undefined,
+) => (color !== undefined ? object.color(color) : object);
@@ -0,0 +1,393 @@
+import { THREE } from "./index.ts";
+import { LineMaterial } from "three/addons/lines/LineMaterial.js";
+import { LineSegments2 } from "three/addons/lines/LineSegments2.js";
+
+type SvgConfig = {
+	/** Whether to fill the background with the scene's background color. */
+	background: boolean;
+	/** Renders only the given object and returns the image as a data URL, for meshes that can't be vectorized. */
+	rasterize: (object: THREE.Object3D) => string;
+};
+
+/** An SVG element with the depth used to sort it. Larger depths are further away from the camera. */
+type SvgElement = {
+	depth: number;
+	markup: string;
+};
+
+/** A point projected to the screen, in pixels from the top left corner, with its depth in normalized device space. */
+type ScreenPoint = { x: number; y: number; z: number };
+
+/** Formats a number with at most two decimals, which is precise enough for screen coordinates. */
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+/** Returns a CSS color for an SVG attribute. */
+const cssColor = (color: THREE.Color) => `#${color.getHexString()}`;
+
+/** Returns the opacity attribute of a material, if it is transparent. */
+const opacityAttribute = (material: THREE.Material, name: string) => {
+	return material.transparent && material.opacity < 1
+		? ` ${name}="${num(material.opacity)}"`
+		: "";
+};
+
+/**
+ * Converts the scene to an SVG image as seen through the given camera. Lines, points and meshes with a single flat
+ * color are converted to vector shapes. Other meshes, like shaded or textured ones, are embedded as raster images.
+ * Elements are sorted by depth, so nearer objects are drawn on top of farther ones.
+ */
+export const sceneToSVG = (
+	scene: THREE.Scene,
+	camera: THREE.Camera,
+	width: number,
+	height: number,
+	config: SvgConfig,
+) => {
+	scene.updateMatrixWorld();
+	camera.updateMatrixWorld();
+
+	const project = (point: THREE.Vector3): ScreenPoint => {
+		const ndc = point.clone().project(camera);
+		return {
+			x: ((ndc.x + 1) / 2) * width,
+			y: ((1 - ndc.y) / 2) * height,
+			z: ndc.z,
+		};
+	};
+
+	const elements: SvgElement[] = [];
+	scene.traverseVisible((object) => {
+		if (object instanceof LineSegments2) {
+			elements.push(...fatLineToSvg(object, project));
+		} else if (object instanceof THREE.Points) {
+			elements.push(...pointsToSvg(object, project));
+		} else if (object instanceof THREE.Line) {
+			elements.push(...lineToSvg(object, project));
+		} else if (object instanceof THREE.Mesh) {
+			if (isVectorizable(object)) {
+				elements.push(...meshToSvg(object, project));
+			} else {
+				const center = new THREE.Vector3();
+				object.getWorldPosition(center);
+				elements.push({
+					depth: project(center).z,
+					markup: `<image x="0" y="0" width="${width}" height="${height}" xlink:href="${config.rasterize(object)}"/>`,
+				});
+			}
+		}
+	});
+
+	// Elements at the same depth keep their scene order, as the sort is stable.
+	elements.sort((a, b) => b.depth - a.depth);
+
+	const lines = [
+		`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+	];
+	if (config.background && scene.background instanceof THREE.Color) {
+		lines.push(
+			`<rect width="100%" height="100%" fill="${cssColor(scene.background)}"/>`,
+		);
+	}
+	for (const element of elements) {
+		lines.push(element.markup);
+	}
+	lines.push("</svg>");
+	return lines.join("\n");
+};
+
+/** Whether a point lies between the near and far planes of the camera. */
+const isInView = (point: ScreenPoint) => point.z >= -1 && point.z <= 1;
+
+/**
+ * Converts a Line2 or LineSegments2, as used by line strips and axes, to SVG paths. Without vertex colors, connected
+ * segments are joined into a single path, otherwise each segment gets its own path with the average of its colors.
+ */
+const fatLineToSvg = (
+	line: LineSegments2,
+	project: (point: THREE.Vector3) => ScreenPoint,
+) => {
+	const geometry = line.geometry;
+	const material = line.material as LineMaterial;
+	const starts = geometry.attributes.instanceStart;
+	const ends = geometry.attributes.instanceEnd;
+	if (starts === undefined || ends === undefined) return [];
+
+	const colorStarts = geometry.attributes.instanceColorStart;
+	const colorEnds = geometry.attributes.instanceColorEnd;
+	const vertexColors =
+		material.vertexColors &&
+		colorStarts !== undefined &&
+		colorEnds !== undefined;
+
+	const count = Math.min(starts.count, geometry.instanceCount);
+	const segments: {
+		from: ScreenPoint;
+		to: ScreenPoint;
+		worldFrom: THREE.Vector3;
+		worldTo: THREE.Vector3;
+		color: THREE.Color;
+	}[] = [];
+	let screenLength = 0;
+	let worldLength = 0;
+	for (let i = 0; i < count; i++) {
+		const worldFrom = new THREE.Vector3()
+			.fromBufferAttribute(starts, i)
+			.applyMatrix4(line.matrixWorld);
+		const worldTo = new THREE.Vector3()
+			.fromBufferAttribute(ends, i)
+			.applyMatrix4(line.matrixWorld);
+		const from = project(worldFrom);
+		const to = project(worldTo);
+		if (!isInView(from) || !isInView(to)) continue;
+
+		screenLength += Math.hypot(to.x - from.x, to.y - from.y);
+		worldLength += worldFrom.distanceTo(worldTo);
+
+		const color = material.color.clone();
+		if (vertexColors) {
+			const start = new THREE.Color().fromBufferAttribute(colorStarts, i);
+			const end = new THREE.Color().fromBufferAttribute(colorEnds, i);
+			color.multiply(start.lerp(end, 0.5));
+		}
+		segments.push({ from, to, worldFrom, worldTo, color });
+	}
+	if (segments.length === 0) return [];
+
+	// Dash sizes and world unit line widths are converted with the average scale of the line on screen.
+	const pixelsPerUnit = worldLength > 0 ? screenLength / worldLength : 1;
+	const lineWidth = material.worldUnits
+		? material.linewidth * pixelsPerUnit
+		: material.linewidth;
+	let style = `fill="none" stroke-width="${num(lineWidth)}" stroke-linecap="round" stroke-linejoin="round"`;
+	if (material.dashed) {
+		const scale = pixelsPerUnit / material.dashScale;
+		style += ` stroke-dasharray="${num(material.dashSize * scale)} ${num(material.gapSize * scale)}"`;
+	}
+	style += opacityAttribute(material, "stroke-opacity");
+
+	if (vertexColors) {
+		return segments.map(({ from, to, color }) => ({
+			depth: (from.z + to.z) / 2,
+			markup: `<path d="M${num(from.x)} ${num(from.y)}L${num(to.x)} ${num(to.y)}" stroke="${cssColor(color)}" ${style}/>`,
+		}));
+	}
+
+	let d = "";
+	let depth = 0;
+	let previous: THREE.Vector3 | null = null;
+	for (const { from, to, worldFrom, worldTo } of segments) {
+		if (previous === null || !previous.equals(worldFrom)) {
+			d += `M${num(from.x)} ${num(from.y)}`;
+		}
+		d += `L${num(to.x)} ${num(to.y)}`;
+		depth += (from.z + to.z) / 2;
+		previous = worldTo;
+	}
+	return [
+		{
+			depth: depth / segments.length,
+			markup: `<path d="${d}" stroke="${cssColor(material.color)}" ${style}/>`,
+		},
+	];
+};
+
+/**
+ * Converts a THREE.Line, THREE.LineSegments or THREE.LineLoop, as used by grids, to SVG paths. WebGL always draws
+ * these one pixel wide.
+ */
+const lineToSvg = (
+	line: THREE.Line,
+	project: (point: THREE.Vector3) => ScreenPoint,
+) => {
+	const material = line.material as THREE.LineBasicMaterial;
+	const positions = line.geometry.attributes.position;
+	if (positions === undefined || Array.isArray(line.material)) return [];
+	const colors = material.vertexColors
+		? line.geometry.attributes.color
+		: undefined;
+
+	const pairs: [number, number][] = [];
+	if (line instanceof THREE.LineSegments) {
+		for (let i = 0; i + 1 < positions.count; i += 2) pairs.push([i, i + 1]);
+	} else {
+		for (let i = 0; i + 1 < positions.count; i++) pairs.push([i, i + 1]);
+		if (line instanceof THREE.LineLoop && positions.count > 2) {
+			pairs.push([positions.count - 1, 0]);
+		}
+	}
+
+	const opacity = opacityAttribute(material, "stroke-opacity");
+	const elements: SvgElement[] = [];
+	for (const [a, b] of pairs) {
+		const from = project(
+			new THREE.Vector3()
+				.fromBufferAttribute(positions, a)
+				.applyMatrix4(line.matrixWorld),
+		);
+		const to = project(
+			new THREE.Vector3()
+				.fromBufferAttribute(positions, b)
+				.applyMatrix4(line.matrixWorld),
+		);
+		if (!isInView(from) || !isInView(to)) continue;
+		// Lines seen end-on, like grid lines of a grid seen from the side, are hardly visible.
+		if (Math.hypot(to.x - from.x, to.y - from.y) < 0.01) continue;
+
+		const color = material.color.clone();
+		if (colors !== undefined) {
+			const start = new THREE.Color().fromBufferAttribute(colors, a);
+			const end = new THREE.Color().fromBufferAttribute(colors, b);
+			color.multiply(start.lerp(end, 0.5));
+		}
+		elements.push({
+			depth: (from.z + to.z) / 2,
+			markup: `<path d="M${num(from.x)} ${num(from.y)}L${num(to.x)} ${num(to.y)}" fill="none" stroke="${cssColor(color)}" stroke-width="1"${opacity}/>`,
+		});
+	}
+	return elements;
+};
+
+/**
+ * Converts a point cloud to SVG circles.
+ */
+const pointsToSvg = (
+	points: THREE.Points,
+	project: (point: THREE.Vector3) => ScreenPoint,
+) => {
+	const material = points.material as THREE.PointsMaterial;
+	const positions = points.geometry.attributes.position;
+	if (positions === undefined || Array.isArray(points.material)) return [];
+	const colors = material.vertexColors
+		? points.geometry.attributes.color
+		: undefined;
+
+	const elements: SvgElement[] = [];
+	for (let i = 0; i < positions.count; i++) {
+		const point = project(
+			new THREE.Vector3()
+				.fromBufferAttribute(positions, i)
+				.applyMatrix4(points.matrixWorld),
+		);
+		if (!isInView(point)) continue;
+
+		const color = material.color.clone();
+		let opacity = material.transparent ? material.opacity : 1;
+		if (colors !== undefined) {
+			color.multiply(new THREE.Color().fromBufferAttribute(colors, i));
+			if (colors.itemSize === 4) opacity *= colors.getW(i);
+		}
+		const fillOpacity =
+			opacity < 1 ? ` fill-opacity="${num(opacity)}"` : "";
+		elements.push({
+			depth: point.z,
+			markup: `<circle cx="${num(point.x)}" cy="${num(point.y)}" r="${num(material.size / 2)}" fill="${cssColor(color)}"${fillOpacity}/>`,
+		});
+	}
+	return elements;
+};
+
+/**
+ * Whether a mesh can be drawn as flat shapes, which is the case for unlit, untextured meshes with a single color.
+ */
+const isVectorizable = (mesh: THREE.Mesh) => {
+	const material = mesh.material;
+	return (
+		material instanceof THREE.MeshBasicMaterial &&
+		!material.vertexColors &&
+		material.map === null
+	);
+};
+
+/**
+ * Converts a mesh with a flat color to SVG paths. The projected triangles of the mesh are combined into one path,
+ * which fills their union without seams between triangles. Instanced meshes get a path per instance.
+ */
+const meshToSvg = (
+	mesh: THREE.Mesh,
+	project: (point: THREE.Vector3) => ScreenPoint,
+) => {
+	const material = mesh.material as THREE.MeshBasicMaterial;
+	if (!(mesh instanceof THREE.InstancedMesh)) {
+		const element = trianglesToSvg(
+			mesh,
+			mesh.matrixWorld,
+			material.color,
+			project,
+		);
+		return element !== null ? [element] : [];
+	}
+
+	const elements: SvgElement[] = [];
+	const instanceMatrix = new THREE.Matrix4();
+	const instanceColor = new THREE.Color();
+	for (let i = 0; i < mesh.count; i++) {
+		mesh.getMatrixAt(i, instanceMatrix);
+		const matrix = mesh.matrixWorld.clone().multiply(instanceMatrix);
+		const color = material.color.clone();
+		if (mesh.instanceColor !== null) {
+			mesh.getColorAt(i, instanceColor);
+			color.multiply(instanceColor);
+		}
+		const element = trianglesToSvg(mesh, matrix, color, project);
+		if (element !== null) elements.push(element);
+	}
+	return elements;
+};
+
+/**
+ * Returns a single path filling the projected triangles of a mesh, or null if no triangle is visible. Triangles that
+ * face away from the camera are skipped if the material only shows one side.
+ */
+const trianglesToSvg = (
+	mesh: THREE.Mesh,
+	matrix: THREE.Matrix4,
+	color: THREE.Color,
+	project: (point: THREE.Vector3) => ScreenPoint,
+): SvgElement | null => {
+	const material = mesh.material as THREE.MeshBasicMaterial;
+	const geometry = mesh.geometry;
+	const positions = geometry.attributes.position;
+	if (positions === undefined) return null;
+
+	const vertices: ScreenPoint[] = [];
+	for (let i = 0; i < positions.count; i++) {
+		vertices.push(
+			project(
+				new THREE.Vector3()
+					.fromBufferAttribute(positions, i)
+					.applyMatrix4(matrix),
+			),
+		);
+	}
+	const index = geometry.index;
+	const triangleCount = (index !== null ? index.count : positions.count) / 3;
+
+	let d = "";
+	let depth = 0;
+	let drawn = 0;
+	for (let t = 0; t < triangleCount; t++) {
+		let a = vertices[index !== null ? index.getX(t * 3) : t * 3]!;
+		const b = vertices[index !== null ? index.getX(t * 3 + 1) : t * 3 + 1]!;
+		let c = vertices[index !== null ? index.getX(t * 3 + 2) : t * 3 + 2]!;
+		if (!isInView(a) || !isInView(b) || !isInView(c)) continue;
+
+		// The screen y axis points down, so triangles facing the camera have a negative area.
+		const area = (b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y);
+		if (Math.abs(area) < 1e-6) continue;
+		const isFront = area < 0;
+		if (material.side === THREE.FrontSide && !isFront) continue;
+		if (material.side === THREE.BackSide && isFront) continue;
+
+		// All triangles are wound the same way, so that overlapping triangles add up instead of cancelling out.
+		if (!isFront) [a, c] = [c, a];
+		d += `M${num(a.x)} ${num(a.y)}L${num(b.x)} ${num(b.y)}L${num(c.x)} ${num(c.y)}Z`;
+		depth += (a.z + b.z + c.z) / 3;
+		drawn++;
+	}
+	if (drawn === 0) return null;
+
+	return {
+		depth: depth / drawn,
+		markup: `<path d="${d}" fill="${cssColor(color)}" fill-rule="nonzero"${opacityAttribute(material, "fill-opacity")}/>`,
+	};
+};
@@ -0,0 +1,360 @@
+import { THREE, type Vec3 } from "./index.ts";
+import type { Theme } from "./colorUtils.ts";
+import { toEasingFn, type EasingFn, type EasingName } from "./easing.ts";
+import { getMaterials, type SceneObject } from "./objects/index.ts";
+import { toVec3 } from "./vecUtils.ts";
+
+type KeyframeBase = {
+	/** The time of the keyframe in seconds from the start of the timeline. */
+	time: number;
+	/** The easing used when moving from the previous keyframe to this one. Default is "cubicInOut". */
+	easing?: EasingFn | EasingName;
+};
+
+/** A keyframe of an object track. Values that are left out are interpolated between the surrounding keyframes. */
+export type ObjectKeyframe = KeyframeBase & {
+	pos?: Vec3;
+	color?: THREE.ColorRepresentation;
+	scale?: number | Vec3;
+	opacity?: number;
+};
+
+/** A keyframe of a value track. */
+export type ValueKeyframe = KeyframeBase & {
+	value: number;
+};
+
+type TimelineConfig = {
+	/** The length of the timeline in seconds. Defaults to the time of the last keyframe. */
+	duration?: number;
+	/** Whether to start over when the end is reached. Default is false. */
+	loop?: boolean;
+	/** Whether to start playing right away. Default is true. */
+	autoplay?: boolean;
+	/** Whether to show the scrubber and the play/pause and loop buttons. Default is true. */
+	controls?: boolean;
+};
+
+/** A sorted list of keyframes of a single property, with values as arrays of numbers. */
+type Track = {
+	keyframes: { time: number; value: number[]; easing: EasingFn }[];
+	apply: (value: number[]) => void;
+};
+
+/**
+ * Returns the value of a track at the given time. Before the first and after the last keyframe, the value of that
+ * keyframe is held.
+ */
+const sampleTrack = (track: Track, time: number) => {
+	const keyframes = track.keyframes;
+	const next = keyframes.findIndex((keyframe) => keyframe.time > time);
+	if (next === -1) return keyframes[keyframes.length - 1]!.value;
+	if (next === 0) return keyframes[0]!.value;
+
+	const from = keyframes[next - 1]!;
+	const to = keyframes[next]!;
+	const t = to.easing((time - from.time) / (to.time - from.time));
+	return from.value.map((v, i) => v + (to.value[i]! - v) * t);
+};
+
+/**
+ * Keyframed animation over absolute time. Unlike tweens, which accumulate the time between frames, every track is
+ * evaluated from the current time alone, so seeking to a time always gives the same result. Created with
+ * {@link Ctx.timeline}.
+ * ### Example
+ * ```js
+ * const sphere = ctx.sphere(10);
+ * const timeline = ctx.timeline({ loop: true });
+ *
+ * timeline.track(sphere, [
+ *     { time: 0, pos: [0, 0, 0], color: "red" },
+ *     { time: 2, pos: [100, 0, 0], easing: "backOut" },
+ *     { time: 3, color: "blue", opacity: 0.5 },
+ * ]);
+ * timeline.trackValue((angle) => (sphere.mesh.rotation.y = angle), [
+ *     { time: 0, value: 0 },
+ *     { time: 3, value: Math.PI },
+ * ]);
+ * ```
+ */
+export class Timeline {
+	/** The current time in seconds. Use {@link seek} to change it. */
+	time: number;
+
+	/** The length of the timeline in seconds. */
+	duration: number;
+
+	/** Whether the timeline is currently playing. */
+	playing: boolean;
+
+	/** Whether the timeline starts over when the end is reached. */
+	looping: boolean;
+
+	/** The container of the controls, if shown. */
+	container: HTMLDivElement | null;
+
+	/** The tracks, evaluated in the order they were added. */
+	private readonly tracks: Track[];
+
+	/** Whether the duration was set in the configuration, rather than derived from the keyframes. */
+	private readonly fixedDuration: boolean;
+
+	/** The range input used to scrub through the timeline. */
+	private scrubber: HTMLInputElement | null;
+
+	/** The play/pause button. */
+	private playButton: HTMLButtonElement | null;
+
+	/** The loop button. */
+	private loopButton: HTMLButtonElement | null;
+
+	/** The span displaying the current time. */
+	private timeLabel: HTMLSpanElement | null;
+
+	constructor(
+		wrapper: HTMLDivElement,
+		theme: Theme,
+		config?: TimelineConfig,
+	) {
+		this.time = 0;
+		this.duration = config?.duration ?? 0;
+		this.fixedDuration = config?.duration !== undefined;
+		this.playing = config?.autoplay ?? true;
+		this.looping = config?.loop ?? false;
+		this.tracks = [];
+		this.container = null;
+		this.scrubber = null;
+		this.playButton = null;
+		this.loopButton = null;
+		this.timeLabel = null;
+
+		if (config?.controls ?? true) {
+			this.createControls(wrapper, theme);
+		}
+	}
+
+	/**
+	 * Adds a track animating the position, color, scale and opacity of an object. Each property is interpolated
+	 * between the keyframes that define it.
+	 * @param object The object to animate.
+	 * @param keyframes The keyframes, in any order.
+	 */
+	track(object: SceneObject<unknown>, keyframes: ObjectKeyframe[]): this {
+		this.addTrack(
+			keyframes,
+			(keyframe) =>
+				keyframe.pos !== undefined
+					? toVec3(keyframe.pos).toArray()
+					: undefined,
+			([x, y, z]) => object.pos([x!, y!, z!]),
+		);
+		this.addTrack(
+			keyframes,
+			(keyframe) => {
+				if (keyframe.scale === undefined) return undefined;
+				return typeof keyframe.scale === "number"
+					? [keyframe.scale, keyframe.scale, keyframe.scale]
+					: toVec3(keyframe.scale).toArray();
+			},
+			([x, y, z]) => object.mesh.scale.set(x!, y!, z!),
+		);
+		this.addTrack(
+			keyframes,
+			(keyframe) =>
+				keyframe.color !== undefined
+					? new THREE.Color(keyframe.color).toArray()
+					: undefined,
+			([r, g, b]) =>
+				object.__applyPlainColor(new THREE.Color(r!, g!, b!)),
+		);
+		this.addTrack(
+			keyframes,
+			(keyframe) =>
+				keyframe.opacity !== undefined ? [keyframe.opacity] : undefined,
+			([opacity]) => {
+				for (const material of getMaterials(object.mesh)) {
+					material.transparent = true;
+					material.opacity = THREE.MathUtils.clamp(opacity!, 0, 1);
+				}
+			},
+		);
+		return this;
+	}
+
+	/**
+	 * Adds a track animating an arbitrary number.
+	 * @param apply Function receiving the value at the current time, called whenever the time changes.
+	 * @param keyframes The keyframes, in any order.
+	 */
+	trackValue(
+		apply: (value: number) => void,
+		keyframes: ValueKeyframe[],
+	): this {
+		this.addTrack(
+			keyframes,
+			(keyframe) => [keyframe.value],
+			([value]) => apply(value!),
+		);
+		return this;
+	}
+
+	/**
+	 * Jumps to the given time and re-evaluates all tracks.
+	 * @param time The time in seconds, clamped to the duration.
+	 */
+	seek(time: number): this {
+		this.time = THREE.MathUtils.clamp(time, 0, this.duration);
+		for (const track of this.tracks) {
+			track.apply(sampleTrack(track, this.time));
+		}
+		this.updateControls();
+		return this;
+	}
+
+	/**
+	 * Starts playing from the current time, or from the start if the end was reached.
+	 */
+	play(): this {
+		if (this.time >= this.duration) this.seek(0);
+		this.playing = true;
+		this.updateControls();
+		return this;
+	}
+
+	/**
+	 * Stops playing, keeping the current time.
+	 */
+	pause(): this {
+		this.playing = false;
+		this.updateControls();
+		return this;
+	}
+
+	/**
+	 * Sets whether the timeline starts over when the end is reached.
+	 * @param enabled Whether to loop. Default is true.
+	 */
+	loop(enabled = true): this {
+		this.looping = enabled;
+		this.updateControls();
+		return this;
+	}
+
+	/**
+	 * @internal Advances the timeline by the given time if it is playing. Called by the context on each tick.
+	 */
+	__step(dt: number) {
+		if (!this.playing) return;
+
+		// A timeline without duration only has a final state, which is applied once, even when looping.
+		if (this.duration === 0) {
+			this.playing = false;
+			this.seek(0);
+			return;
+		}
+
+		let time = this.time + dt;
+		if (time >= this.duration) {
+			if (this.looping) {
+				time %= this.duration;
+			} else {
+				time = this.duration;
+				this.playing = false;
+			}
+		}
+		this.seek(time);
+	}
+
+	/**
+	 * Adds a track for the keyframes that define a property, and evaluates it at the current time.
+	 */
+	private addTrack<Keyframe extends KeyframeBase>(
+		keyframes: Keyframe[],
+		getValue: (keyframe: Keyframe) => number[] | undefined,
+		apply: (value: number[]) => void,
+	) {
+		const trackKeyframes = [];
+		for (const keyframe of keyframes) {
+			const value = getValue(keyframe);
+			if (value === undefined) continue;
+			trackKeyframes.push({
+				time: keyframe.time,
+				value,
+				easing: toEasingFn(keyframe.easing ?? "cubicInOut"),
+			});
+		}
+		if (trackKeyframes.length === 0) return;
+
+		trackKeyframes.sort((a, b) => a.time - b.time);
+		const track = { keyframes: trackKeyframes, apply };
+		this.tracks.push(track);
+
+		if (!this.fixedDuration) {
+			const end = trackKeyframes[trackKeyframes.length - 1]!.time;
+			this.duration = Math.max(this.duration, end);
+		}
+		track.apply(sampleTrack(track, this.time));
+		this.updateControls();
+	}
+
+	/**
+	 * Creates the scrubber and buttons. The layout matches a slider, with the buttons in place of the label.
+	 */
+	private createControls(wrapper: HTMLDivElement, theme: Theme) {
+		const { ownerDocument } = wrapper;
+		const container = ownerDocument.createElement("div");
+		container.classList.add(
+			"renderer-slider-container",
+			"renderer-timeline-container",
+		);
+		if (theme === "dark") {
+			container.classList.add("dark");
+		}
+
+		const labelContainer = ownerDocument.createElement("div");
+
+		const buttons = ownerDocument.createElement("div");
+		this.playButton = ownerDocument.createElement("button");
+		this.playButton.onclick = () => {
+			if (this.playing) this.pause();
+			else this.play();
+		};
+		this.loopButton = ownerDocument.createElement("button");
+		this.loopButton.textContent = "Loop";
+		this.loopButton.onclick = () => this.loop(!this.looping);
+		buttons.append(this.playButton, this.loopButton);
+
+		this.timeLabel = ownerDocument.createElement("span");
+		labelContainer.append(buttons, this.timeLabel);
+
+		this.scrubber = ownerDocument.createElement("input");
+		this.scrubber.type = "range";
+		this.scrubber.min = "0";
+		this.scrubber.step = "any";
+		this.scrubber.addEventListener("input", () => {
+			this.seek(parseFloat(this.scrubber!.value));
+		});
+
+		container.append(labelContainer, this.scrubber);
+		wrapper.appendChild(container);
+		this.container = container;
+		this.updateControls();
+	}
+
+	/**
+	 * Updates the controls to show the current time and state.
+	 */
+	private updateControls() {
+		if (this.scrubber !== null) {
+			this.scrubber.max = this.duration.toString();
+			this.scrubber.value = this.time.toString();
+		}
+		if (this.playButton !== null) {
+			this.playButton.textContent = this.playing ? "Pause" : "Play";
+		}
+		this.loopButton?.classList.toggle("active", this.looping);
+		if (this.timeLabel !== null) {
+			this.timeLabel.textContent = `${this.time.toFixed(1)}s / ${this.duration.toFixed(1)}s`;
+		}
+	}
+}
@@ -0,0 +1,208 @@
+import { toEasingFn, type EasingFn, type EasingName } from "./easing.ts";
+
+/**
+ * A running animation. Animations can be awaited, and resolve with true when they finish or with false when they are
+ * cancelled.
+ */
+export interface Animation extends PromiseLike<boolean> {
+	/** Whether the animation has finished or was cancelled. */
+	readonly done: boolean;
+
+	/**
+	 * Stops the animation, leaving animated values where they are.
+	 */
+	cancel(): void;
+}
+
+/**
+ * Interpolates a value over time. Tweens are created with {@link Ctx.tween} or an object's `animate` method, and are
+ * advanced by the renderer on each animation frame.
+ * ### Example
+ * ```js
+ * const sphere = ctx.sphere(10);
+ * await sphere.animate({ pos: [100, 0, 0] }, 1).delay(0.5);
+ * await sphere.animate({ color: "red", scale: 2 }, 0.5, "backOut");
+ * ```
+ */
+export class Tween implements Animation {
+	done: boolean;
+
+	/** Duration of the tween in seconds, excluding the delay. */
+	private readonly duration: number;
+
+	/** Receives the eased progress on each tick. */
+	private readonly updateFn: (t: number) => void;
+
+	/** The easing function applied to the linear progress. */
+	private readonly easingFn: EasingFn;
+
+	/** Seconds to wait before the tween starts. */
+	private delaySeconds: number;
+
+	/** Seconds passed since the tween was created. */
+	private elapsed: number;
+
+	/** The promise resolved when the tween finishes or is cancelled. */
+	private readonly promise: Promise<boolean>;
+
+	/** Resolves {@link promise}. */
+	private resolve: (finished: boolean) => void = () => {};
+
+	constructor(
+		duration: number,
+		update: (t: number) => void,
+		easing: EasingFn | EasingName = "cubicInOut",
+	) {
+		if (duration < 0) {
+			throw new Error("Invalid duration: must not be negative.");
+		}
+
+		this.done = false;
+		this.duration = duration;
+		this.updateFn = update;
+		this.easingFn = toEasingFn(easing);
+		this.delaySeconds = 0;
+		this.elapsed = 0;
+		this.promise = new Promise((resolve) => {
+			this.resolve = resolve;
+		});
+	}
+
+	/**
+	 * Delays the start of the tween.
+	 * @param seconds The number of seconds to wait before starting.
+	 */
+	delay(seconds: number): this {
+		this.delaySeconds = seconds;
+		return this;
+	}
+
+	cancel() {
+		if (this.done) return;
+		this.done = true;
+		this.resolve(false);
+	}
+
+	then<Result1 = boolean, Result2 = never>(
+		onfulfilled?:
+			((value: boolean) => Result1 | PromiseLike<Result1>) | null,
+		onrejected?:
+			((reason: unknown) => Result2 | PromiseLike<Result2>) | null,
+	) {
+		return this.promise.then(onfulfilled, onrejected);
+	}
+
+	/**
+	 * @internal Advances the tween by the given time. The final value is always applied before the tween finishes.
+	 * @returns Whether the tween is still running.
+	 */
+	__step(dt: number) {
+		if (this.done) return false;
+
+		this.elapsed += dt;
+		if (this.elapsed < this.delaySeconds) return true;
+
+		const progress =
+			this.duration > 0
+				? Math.min(
+						(this.elapsed - this.delaySeconds) / this.duration,
+						1,
+					)
+				: 1;
+		this.updateFn(progress < 1 ? this.easingFn(progress) : 1);
+
+		if (progress < 1) return true;
+		this.done = true;
+		this.resolve(true);
+		return false;
+	}
+}
+
+/**
+ * Runs animations side by side. Finishes when all of them have finished. Created with {@link Ctx.parallel}.
+ */
+export class ParallelAnimation implements Animation {
+	/** The animations in the group. */
+	private readonly animations: Animation[];
+
+	/** The promise resolved when all animations have settled. */
+	private readonly promise: Promise<boolean>;
+
+	constructor(animations: Animation[]) {
+		this.animations = animations;
+		this.promise = Promise.all(animations).then((results) =>
+			results.every((finished) => finished),
+		);
+	}
+
+	get done() {
+		return this.animations.every((animation) => animation.done);
+	}
+
+	cancel() {
+		for (const animation of this.animations) {
+			animation.cancel();
+		}
+	}
+
+	then<Result1 = boolean, Result2 = never>(
+		onfulfilled?:
+			((value: boolean) => Result1 | PromiseLike<Result1>) | null,
+		onrejected?:
+			((reason: unknown) => Result2 | PromiseLike<Result2>) | null,
+	) {
+		return this.promise.then(onfulfilled, onrejected);
+	}
+}
+
+/**
+ * Runs animations one after another. Each step is a function that starts an animation, and is only called once the
+ * previous animation has finished, so that it starts from the values the previous one left behind. Created with
+ * {@link Ctx.sequence}.
+ */
+export class SequenceAnimation implements Animation {
+	done: boolean;
+
+	/** The animation of the current step, if it has started. */
+	private current: Animation | null;
+
+	/** The promise resolved when all steps have finished or the sequence is cancelled. */
+	private readonly promise: Promise<boolean>;
+
+	constructor(steps: (() => Animation)[]) {
+		this.done = false;
+		this.current = null;
+		this.promise = this.run(steps);
+	}
+
+	cancel() {
+		if (this.done) return;
+		this.done = true;
+		this.current?.cancel();
+	}
+
+	then<Result1 = boolean, Result2 = never>(
+		onfulfilled?:
+			((value: boolean) => Result1 | PromiseLike<Result1>) | null,
+		onrejected?:
+			((reason: unknown) => Result2 | PromiseLike<Result2>) | null,
+	) {
+		return this.promise.then(onfulfilled, onrejected);
+	}
+
+	/**
+	 * Starts the steps in order, stopping early if one of them is cancelled.
+	 */
+	private async run(steps: (() => Animation)[]) {
+		for (const step of steps) {
+			if (this.done) return false;
+			this.current = step();
+			if (!(await this.current)) {
+				this.done = true;
+				return false;
+			}
+		}
+		this.done = true;
+		return true;
+	}
+}
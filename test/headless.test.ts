@@ -0,0 +1,57 @@
+/// <reference types="node" />
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createHeadlessCtx } from "../src/index.ts";
+
+describe("createHeadlessCtx", () => {
+	it("describes the objects in the scene", () => {
+		const ctx = createHeadlessCtx();
+		ctx.sphere(10).pos([0, 20, 0]).color("red");
+
+		const [light, sphere] = ctx.snapshot();
+		assert.equal(light?.type, "HemisphereLight");
+		assert.deepEqual(sphere, {
+			type: "Sphere",
+			position: [0, 20, 0],
+			color: "#ff0000",
+			vertices: 561,
+		});
+	});
+
+	it("advances animations and update functions on tick", () => {
+		const ctx = createHeadlessCtx();
+		ctx.sphere(10).animate({ pos: [100, 0, 0] }, 1, "linear");
+		ctx.update(() => {
+			ctx.circle(5);
+		});
+
+		ctx.tick(0.5);
+		const types = ctx.snapshot().map((node) => node.type);
+		assert.deepEqual(types, ["HemisphereLight", "Sphere", "Circle"]);
+		assert.deepEqual(ctx.snapshot()[1]?.position, [50, 0, 0]);
+
+		// The circle of the previous tick is replaced, not added again.
+		ctx.tick(0.5);
+		assert.equal(ctx.snapshot().length, 3);
+		assert.deepEqual(ctx.snapshot()[1]?.position, [100, 0, 0]);
+	});
+
+	it("notifies bound objects when a control is set by key", () => {
+		const ctx = createHeadlessCtx();
+		const sphere = ctx.sphere(10);
+		ctx.checkbox("Show sphere", true).bind(sphere, (sphere, show) => {
+			sphere.mesh.visible = show;
+		});
+
+		ctx.setControl("show-sphere", false);
+		assert.equal(ctx.snapshot()[1]?.visible, false);
+
+		ctx.setControl("show-sphere", true);
+		assert.equal(ctx.snapshot()[1]?.visible, undefined);
+	});
+
+	it("throws for unknown control keys", () => {
+		const ctx = createHeadlessCtx();
+		assert.throws(() => ctx.setControl("missing", 1), /missing/);
+	});
+});
@@ -0,0 +1,56 @@
+/// <reference types="node" />
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createHeadlessCtx } from "../src/index.ts";
+
+describe("Ctx.load", () => {
+	it("rebuilds the objects of a serialized scene", () => {
+		const ctx = createHeadlessCtx();
+		ctx.sphere(20).pos([50, 0, 0]).color("red");
+		ctx.lineStrip([
+			[0, 0],
+			[100, 50],
+		]).linewidth(4);
+		const scene = ctx.serialize();
+
+		const other = createHeadlessCtx();
+		other.load(JSON.stringify(scene));
+		assert.deepEqual(other.serialize(), scene);
+	});
+
+	it("checks all objects before creating any", () => {
+		const ctx = createHeadlessCtx();
+		const scene = {
+			version: 1,
+			objects: [
+				{ type: "circle", pos: [0, 0, 0], radius: 10, segments: 32 },
+				{ type: "sphere", pos: [0, 0, 0], radius: 10 },
+			],
+		};
+
+		assert.throws(() => ctx.load(JSON.stringify(scene)), /widthSegments/);
+		assert.deepEqual(ctx.serialize().objects, []);
+	});
+
+	it("rejects an invalid background without changing the scene", () => {
+		const ctx = createHeadlessCtx();
+		const scene = {
+			version: 1,
+			background: "tomato",
+			objects: [
+				{ type: "circle", pos: [0, 0, 0], radius: 10, segments: 32 },
+			],
+		};
+
+		const before = ctx.serialize();
+		assert.throws(() => ctx.load(JSON.stringify(scene)), /background/);
+		assert.deepEqual(ctx.serialize(), before);
+	});
+
+	it("forgets removed objects", () => {
+		const ctx = createHeadlessCtx();
+		const arrow = ctx.arrow([0, 0, 0], [100, 0, 0]);
+		ctx.remove(arrow.mesh);
+		assert.equal(ctx.__getObjects().length, 0);
+	});
+});
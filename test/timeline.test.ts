@@ -0,0 +1,38 @@
+/// <reference types="node" />
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createHeadlessCtx } from "../src/index.ts";
+
+describe("Timeline", () => {
+	it("applies the final state of a timeline without duration once", () => {
+		const ctx = createHeadlessCtx();
+		const sphere = ctx.sphere(10);
+		const timeline = ctx.timeline({ duration: 0, loop: true });
+		timeline.track(sphere, [{ time: 0, pos: [10, 0, 0] }]);
+		sphere.pos([0, 0, 0]);
+
+		ctx.tick(1 / 60);
+		assert.equal(sphere.mesh.position.x, 10);
+		assert.equal(timeline.playing, false);
+
+		sphere.pos([0, 0, 0]);
+		ctx.tick(1 / 60);
+		assert.equal(sphere.mesh.position.x, 0);
+	});
+
+	it("stops at the end unless looping", () => {
+		const ctx = createHeadlessCtx();
+		const sphere = ctx.sphere(10);
+		const timeline = ctx.timeline();
+		timeline.track(sphere, [
+			{ time: 0, pos: [0, 0, 0] },
+			{ time: 1, pos: [100, 0, 0], easing: "linear" },
+		]);
+
+		ctx.tick(0.5);
+		assert.equal(sphere.mesh.position.x, 50);
+		ctx.tick(1);
+		assert.equal(sphere.mesh.position.x, 100);
+		assert.equal(timeline.playing, false);
+	});
+});
@@ -0,0 +1,24 @@
+/// <reference types="node" />
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createHeadlessCtx } from "../src/index.ts";
+
+describe("Ctx.tween", () => {
+	it("keeps tweens started by another tween", () => {
+		const ctx = createHeadlessCtx();
+		const sphere = ctx.sphere(10);
+		ctx.tween(
+			1,
+			(t) => {
+				if (t === 1) sphere.animate({ pos: [100, 0, 0] }, 1, "linear");
+			},
+			"linear",
+		);
+
+		ctx.tick(1);
+		ctx.tick(0.5);
+		assert.equal(sphere.mesh.position.x, 50);
+		ctx.tick(0.5);
+		assert.equal(sphere.mesh.position.x, 100);
+	});
+});